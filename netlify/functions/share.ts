@@ -0,0 +1,155 @@
+import type { Handler, HandlerEvent, HandlerResponse } from "@netlify/functions";
+import { getStyle } from "../../src/shared/styles";
+import type { TransformErrorCode } from "../../src/shared/errors";
+import { DEFAULT_SHARE_EXPIRY, isShareExpiry, SHARE_ID_PATTERN, type CreateShareResponse } from "../../src/shared/share";
+import { validateImage, ValidationError } from "../lib/validation";
+import { getClientKey, getRateLimiter } from "../lib/rateLimit";
+import { createShareId, getShareStore, isExpired, renderMissingSharePage, renderSharePage, sweepExpiredShares, type SharedResult } from "../lib/shares";
+
+interface CreateShareBody {
+    data: string;
+    mimeType: string;
+    styleId: string;
+    // Days until the link stops working; DEFAULT_SHARE_EXPIRY when omitted.
+    expiresInDays?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const errorResponse = (statusCode: number, code: TransformErrorCode, error: string): HandlerResponse => ({
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ error, code }),
+});
+
+const htmlResponse = (statusCode: number, body: string): HandlerResponse => ({
+    statusCode,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    body,
+});
+
+const header = (event: HandlerEvent, name: string): string | undefined => event.headers[name] ?? event.headers[name.toLowerCase()];
+
+const requestOrigin = (event: HandlerEvent): string => {
+    const host = header(event, 'x-forwarded-host') ?? header(event, 'host');
+    if (host) {
+        return `${header(event, 'x-forwarded-proto') ?? 'https'}://${host}`;
+    }
+    return process.env.URL ?? '';
+};
+
+const parseCreateBody = (rawBody: string | null): Partial<CreateShareBody> => {
+    try {
+        const parsed = JSON.parse(rawBody || '{}');
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        throw new ValidationError(400, 'invalid_json', "The request body is not valid JSON.");
+    }
+};
+
+const createShare = async (event: HandlerEvent): Promise<HandlerResponse> => {
+    const { data, mimeType, styleId, expiresInDays = DEFAULT_SHARE_EXPIRY } = parseCreateBody(event.body);
+
+    if (typeof data !== 'string' || typeof mimeType !== 'string' || typeof styleId !== 'string' || !data || !mimeType || !styleId) {
+        return errorResponse(400, 'missing_fields', "Missing required image data or style.");
+    }
+    if (!getStyle(styleId)) {
+        return errorResponse(400, 'unknown_style', `Unknown style: ${styleId}`);
+    }
+    if (!isShareExpiry(expiresInDays)) {
+        return errorResponse(400, 'invalid_expiry', "Share links expire after 1, 7 or 30 days.");
+    }
+
+    // Same byte, type and pixel limits as an upload to the transform function.
+    const image = validateImage(data, mimeType);
+
+    // Every link stores an image, so creating one counts like a transformation.
+    // Checked last so malformed requests don't use up the caller's limit.
+    const limit = await getRateLimiter().check(getClientKey(event), 1);
+    if (!limit.allowed) {
+        return {
+            statusCode: 429,
+            headers: { 'Content-Type': 'application/json', 'Retry-After': String(limit.retryAfterSeconds) },
+            body: JSON.stringify({
+                error: limit.reason === 'daily'
+                    ? "Daily quota reached. Please come back tomorrow."
+                    : "Too many share links in a short time. Please wait a moment.",
+                code: limit.reason === 'daily' ? 'quota_exceeded' : 'rate_limited',
+                retryAfterSeconds: limit.retryAfterSeconds,
+            }),
+        };
+    }
+
+    const createdAt = Date.now();
+    const share: SharedResult = {
+        id: createShareId(),
+        styleId,
+        data,
+        mimeType: image.mimeType,
+        createdAt,
+        expiresAt: createdAt + expiresInDays * DAY_MS,
+    };
+    const store = getShareStore();
+    await store.put(share);
+    // The link already works, so a failed clean-up shouldn't fail the request.
+    await sweepExpiredShares(store).catch(error => console.error("Could not sweep expired shares:", error));
+
+    const response: CreateShareResponse = { id: share.id, path: `/s/${share.id}`, expiresAt: share.expiresAt };
+    return { statusCode: 201, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(response) };
+};
+
+// Expired shares are removed the first time someone asks for them.
+const findShare = async (id: string | undefined): Promise<SharedResult | null> => {
+    if (!id || !SHARE_ID_PATTERN.test(id)) return null;
+    const store = getShareStore();
+    const share = await store.get(id);
+    if (share && isExpired(share)) {
+        await store.delete(id);
+        return null;
+    }
+    return share;
+};
+
+const viewShare = async (event: HandlerEvent): Promise<HandlerResponse> => {
+    const { id, view } = event.queryStringParameters ?? {};
+    const share = await findShare(id);
+
+    if (view === 'image') {
+        if (!share) {
+            return errorResponse(404, 'share_not_found', "This share link doesn't exist or has expired.");
+        }
+        return {
+            statusCode: 200,
+            headers: { 'Content-Type': share.mimeType, 'Cache-Control': 'public, max-age=3600' },
+            body: share.data,
+            isBase64Encoded: true,
+        };
+    }
+
+    return share ? htmlResponse(200, renderSharePage(share, requestOrigin(event))) : htmlResponse(404, renderMissingSharePage());
+};
+
+// POST stores a finished result and returns its share id. GET serves the
+// public page (`/s/:id`) and its image (`/s/:id/image`), which netlify.toml
+// rewrites to this function.
+const handler: Handler = async (event) => {
+    try {
+        switch (event.httpMethod) {
+            case 'POST':
+                return await createShare(event);
+            case 'GET':
+            case 'HEAD':
+                return await viewShare(event);
+            default:
+                return { statusCode: 405, body: 'Method Not Allowed' };
+        }
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return errorResponse(error.statusCode, error.code, error.message);
+        }
+        console.error("Error in share function:", error);
+        return errorResponse(500, 'internal_error', "An internal error occurred while handling the share link.");
+    }
+};
+
+export { handler };
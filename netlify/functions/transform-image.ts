@@ -1,116 +1,276 @@
-import type { Handler } from "@netlify/functions";
-import { GoogleGenAI, Modality } from "@google/genai";
-
-// These prompts are copied from the original geminiService.ts to make the function self-contained.
-const LOFI_PROMPT = `Transform this photo to look like it was taken at a party or social event between 2002-2005 with a typical consumer point-and-shoot digital camera. The aesthetic is "2000s Nightlife Throwback" - think authentic, not overly polished.
-
-Key transformations to apply:
-1.  **Simulate On-Camera Flash:** Re-light the image to mimic a direct, on-camera flash. This should create bright, slightly blown-out highlights on the foreground subject (especially faces) and cause the background to appear darker with some vignetting, as if it were a poorly lit room. Avoid making the shadows completely black; some background detail should remain visible.
-2.  **Authentic Color Shift:** Adjust the colors to match early digital sensors. This includes slightly boosting saturation and adding a subtle cool tint (blue or magenta), particularly in the mid-tones and shadows.
-3.  **Low-Resolution Feel:** Introduce a moderate amount of digital noise/grain and a slight overall softness to the image to replicate a low-megapixel sensor.
-4.  **Date Stamp:** Add a classic yellow or orange digital date stamp in the bottom-right corner. Use a common font from that era. The format should be like '04 11 18' (YY MM DD). Use a random date between 2003 and 2005.
-5.  **Watermark Logo:** In the bottom-left corner, add a small, semi-transparent watermark logo. The logo should be text-based, saying '2000s FLASHBACK' in a clean, futuristic, sans-serif font (similar to Orbitron or other digital-style fonts). The word 'FLASH' should be a different, vibrant color like neon pink or cyan. The rest of the text should be white.
-
-The transformation should be noticeable and stylistic, but it must respect the original subject and composition. The final image should look like a plausible photograph from that time, not an extreme special effect.`;
-
-const CUTOUT_PROMPT = `Create a fun, "paper cutout" or scrapbook-style image from the provided photo. The aesthetic is a playful and chaotic 2000s throwback.
-
-Key transformations to apply:
-1.  **Isolate and Style Subject:** Identify the main subject(s) in the photo. Create a "cutout" of them with a distinct, slightly uneven white border, as if they were cut out with scissors.
-2.  **Create Artboard Background:** Place the subject cutout onto a simple, flat, colored artboard background. The color should be vibrant and reminiscent of the era, like pastel pink, electric blue, or lime green.
-3.  **Add a Random Mix of Themed Objects:** From the extensive list below, randomly select 3 to 5 different objects to generate as small paper cutouts. Scatter them around the main subject. These objects must also have white "cutout" borders.
-    **Iconic 2000s Object List:**
-    - A flip phone (like a Motorola RAZR or a Nokia)
-    - A blank CD-R with "Mix Tape" handwritten on it
-    - An energy drink can (like Red Bull)
-    - An early iPod model with a click wheel
-    - A disposable camera
-    - A digital pet on a keychain (like a Tamagotchi)
-    - A Blockbuster video rental case
-    - A portable CD player (Discman)
-    - A floppy disk
-    - Y2K-style sunglasses (like shield sunglasses)
-    - Butterfly hair clips
-    - A chunky CRT computer monitor displaying a classic instant messenger window
-    - Bubble graffiti text saying one of the following: "OMG!", "LOL", "BFF", "Pwned", or "Cool!".
-4.  **Composition and Shadow:** Arrange all cutouts (the main subject and the randomly selected themed objects) in a dynamic, overlapping, and random-looking composition. Apply a subtle drop shadow to all cutouts to give them a slight 3D effect, making them look like they're sitting on top of the artboard.
-5.  **Watermark Logo:** Somewhere on the artboard, place a stylized text logo that says '2000s FLASHBACK'. The logo should fit the scrapbook theme, perhaps looking like another cutout or a sticker. Use a clean, futuristic font. The word 'FLASH' should be a different, vibrant color like neon pink or cyan to make it pop.
-
-The final image should be a creative, fun, and unique collage that screams nostalgia for the early 2000s. The randomness of the objects is key to making each creation feel special.`;
+import { createHash } from "node:crypto";
+import { stream, type HandlerResponse } from "@netlify/functions";
+import { getStyle, type PromptOptions, type StyleDefinition } from "../../src/shared/styles";
+import type { TransformStage } from "../../src/shared/progress";
+import type { TransformErrorCode } from "../../src/shared/errors";
+import { MAX_VARIATIONS } from "../../src/shared/limits";
+import { selectCutoutObjects } from "../../src/shared/cutoutObjects";
+import { randomSeed } from "../../src/shared/random";
+import { buildRefinementPrompt, type RefinementRequest } from "../../src/shared/refinement";
+import { summarizeCutoutSubjects } from "../../src/shared/subjects";
+import { getImageProvider, ProviderConfigurationError, type ImageProvider } from "../lib/providers";
+import { createEventStream, wantsEventStream, SSE_HEADERS } from "../lib/sse";
+import { validateImage, ValidationError, type ValidatedImage } from "../lib/validation";
+import { parsePromptOptions } from "../lib/promptOptions";
+import { parseRefinement, validateMask } from "../lib/refinement";
+import { getClientKey, getRateLimiter } from "../lib/rateLimit";
+import { createCacheKey, getResultCache, type CachedResult } from "../lib/cache";
 
 interface RequestBody {
     base64ImageData: string;
     mimeType: string;
-    style: 'lofi' | 'cutout';
+    style: string;
+    promptOptions?: unknown;
+    // Re-roll: ignore any cached result, but still cache the fresh one.
+    skipCache?: boolean;
+    // How many alternative images to generate, 1 to MAX_VARIATIONS.
+    variations?: number;
+    // Follow-up edit: the image is an earlier result of this style and options.
+    refinement?: unknown;
 }
 
-const handler: Handler = async (event) => {
-    if (event.httpMethod !== 'POST') {
-        return { statusCode: 405, body: 'Method Not Allowed' };
+type ReportStage = (stage: TransformStage) => void;
+
+// The whole request, checked before the rate limiter runs.
+interface CheckedRequest {
+    base64ImageData: string;
+    image: ValidatedImage;
+    style: StyleDefinition;
+    skipCache: boolean;
+    variations: number;
+    promptOptions: PromptOptions;
+    refinement: RefinementRequest | null;
+    mask: ValidatedImage | null;
+}
+
+const errorResponse = (statusCode: number, code: TransformErrorCode, error: string): HandlerResponse => ({
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ error, code }),
+});
+
+const parseRequestBody = (rawBody: string | null): Partial<RequestBody> => {
+    try {
+        const parsed = JSON.parse(rawBody || '{}');
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        throw new ValidationError(400, 'invalid_json', "The request body is not valid JSON.");
     }
+};
+
+const parseVariations = (value: unknown): number => {
+    if (value === undefined) {
+        return 1;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_VARIATIONS) {
+        throw new ValidationError(400, 'invalid_variations', `Variations must be a whole number from 1 to ${MAX_VARIATIONS}.`);
+    }
+    return value;
+};
 
-    const { API_KEY } = process.env;
+const checkRequest = (body: Partial<RequestBody>): CheckedRequest => {
+    const { base64ImageData, mimeType, style } = body;
 
-    if (!API_KEY) {
-        return {
-            statusCode: 500,
-            body: JSON.stringify({ error: "Server configuration error: API key is not set up." }),
-        };
+    if (typeof base64ImageData !== 'string' || typeof mimeType !== 'string' || typeof style !== 'string' || !base64ImageData || !mimeType || !style) {
+        throw new ValidationError(400, 'missing_fields', "Missing required image data or style.");
     }
 
+    const styleDefinition = getStyle(style);
+
+    if (!styleDefinition) {
+        throw new ValidationError(400, 'unknown_style', `Unknown style: ${style}`);
+    }
+
+    const variations = parseVariations(body.variations);
+    const promptOptions = parsePromptOptions(body.promptOptions);
+    const refinement = parseRefinement(body.refinement);
+    const image = validateImage(base64ImageData, mimeType);
+
+    return {
+        base64ImageData,
+        image,
+        style: styleDefinition,
+        skipCache: body.skipCache === true,
+        variations,
+        promptOptions,
+        refinement,
+        mask: refinement?.mask ? validateMask(refinement.mask, image) : null,
+    };
+};
+
+// Everything the model call needs, worked out from a checked request.
+interface TransformPlan {
+    request: CheckedRequest;
+    prompt: string;
+    previousPrompt: string | undefined;
+    cacheKey: string;
+    successResponse: (result: CachedResult, cached: boolean) => HandlerResponse;
+}
+
+const planTransform = (request: CheckedRequest): TransformPlan => {
+    const { image: validated, style: styleDefinition, skipCache, variations, promptOptions, refinement, mask } = request;
+
+    // Without an explicit seed, the same photo gets the same props (so the
+    // cache stays useful) and a re-roll draws new ones.
+    const seed = promptOptions.settings.seed
+        ?? (skipCache ? randomSeed() : createHash('sha256').update(validated.bytes).digest().readUInt32BE(0));
+    const settings = { ...promptOptions.settings, seed };
+    const stylePrompt = styleDefinition.buildPrompt({ ...promptOptions, settings });
+    // A follow-up may have swapped props, so the original selection no longer describes it.
+    const selection = styleDefinition.controls.includes('cutoutObjects') && !refinement ? selectCutoutObjects(settings, seed) : null;
+    const cutoutSubjects = styleDefinition.controls.includes('subjectSelection') && !refinement
+        ? summarizeCutoutSubjects(promptOptions.subjects, promptOptions.subjectSelection)
+        : null;
+    const prompt = refinement ? buildRefinementPrompt(refinement) : stylePrompt;
+    const previousPrompt = refinement ? stylePrompt : undefined;
+
+    return {
+        request,
+        prompt,
+        previousPrompt,
+        cacheKey: createCacheKey({
+            imageBytes: validated.bytes,
+            styleId: styleDefinition.id,
+            promptVersion: styleDefinition.promptVersion,
+            prompt,
+            variations,
+            previousPrompt,
+            maskBytes: mask?.bytes,
+        }),
+        successResponse: (result, cached) => ({
+            statusCode: 200,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                images: result.images,
+                styleId: styleDefinition.id,
+                promptVersion: styleDefinition.promptVersion,
+                model: result.model,
+                selection,
+                cutoutSubjects,
+                cached,
+            }),
+        }),
+    };
+};
+
+// Looked up before the rate limiter: a hit costs no model call, so it isn't
+// charged against the caller's limit. A failing cache read just means a miss.
+const findCachedResult = async ({ request, cacheKey }: TransformPlan): Promise<CachedResult | null> => {
+    const cache = getResultCache();
+    if (!cache || request.skipCache) {
+        return null;
+    }
     try {
-        const { base64ImageData, mimeType, style } = JSON.parse(event.body || '{}') as RequestBody;
+        return await cache.get(cacheKey);
+    } catch (error) {
+        console.error("Failed to read cached transformation result:", error);
+        return null;
+    }
+};
 
-        if (!base64ImageData || !mimeType || !style) {
-            return {
-                statusCode: 400,
-                body: JSON.stringify({ error: "Missing required image data or style." }),
-            };
+const transform = async ({ request, prompt, previousPrompt, cacheKey, successResponse }: TransformPlan, cachedResult: CachedResult | null, provider: ImageProvider, report: ReportStage): Promise<HandlerResponse> => {
+    const { base64ImageData, image: validated, variations, refinement, mask } = request;
+    try {
+        // Both already happened before the rate limiter; report them so stream clients see every stage.
+        report('received');
+        report('validated');
+
+        if (cachedResult) {
+            report('image-extracted');
+            return successResponse(cachedResult, true);
         }
 
-        const ai = new GoogleGenAI({ apiKey: API_KEY });
-        const prompt = style === 'lofi' ? LOFI_PROMPT : CUTOUT_PROMPT;
-        
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image-preview',
-            contents: {
-                parts: [
-                    { inlineData: { data: base64ImageData, mimeType: mimeType } },
-                    { text: prompt },
-                ],
-            },
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-            },
+        report('model-started');
+        const { images, raw } = await provider.generate({
+            base64ImageData,
+            mimeType: validated.mimeType,
+            prompt,
+            previousPrompt,
+            mask: mask && refinement?.mask ? { data: refinement.mask, mimeType: mask.mimeType } : undefined,
+            count: variations,
         });
-        
-        const candidate = response.candidates?.[0];
-
-        if (candidate && candidate.content && Array.isArray(candidate.content.parts)) {
-            for (const part of candidate.content.parts) {
-                if (part.inlineData && part.inlineData.data) {
-                    return {
-                        statusCode: 200,
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({ transformedBase64: part.inlineData.data }),
-                    };
-                }
+
+        if (images.length > 0) {
+            report('image-extracted');
+            const result: CachedResult = { images, model: provider.model, createdAt: Date.now() };
+            const cache = getResultCache();
+            if (cache) {
+                // A cache write failing shouldn't cost the user their result.
+                await cache.set(cacheKey, result).catch(error => console.error("Failed to cache transformation result:", error));
             }
+            return successResponse(result, false);
         }
-        
-        console.error("AI response did not contain an image.", JSON.stringify(response, null, 2));
-        return {
-            statusCode: 500,
-            body: JSON.stringify({ error: "The AI model did not return an image. This could be due to the content of the image or internal safety filters. Please try a different photo." }),
-        };
+
+        console.error("AI response did not contain an image.", JSON.stringify(raw, null, 2));
+        return errorResponse(500, 'no_image_returned', "The AI model did not return an image. This could be due to the content of the image or internal safety filters. Please try a different photo.");
 
     } catch (error) {
         console.error("Error in transform-image function:", error);
+        return errorResponse(500, 'internal_error', "An internal error occurred while transforming the image.");
+    }
+};
+
+// Clients that send `Accept: text/event-stream` get `progress` events for each
+// stage followed by a single `result` event carrying the usual status and JSON
+// body. Everyone else gets the plain JSON response.
+const handler = stream(async (event) => {
+    if (event.httpMethod !== 'POST') {
+        return { statusCode: 405, body: 'Method Not Allowed' };
+    }
+
+    let provider: ImageProvider;
+
+    try {
+        provider = getImageProvider();
+    } catch (error) {
+        if (error instanceof ProviderConfigurationError) {
+            return errorResponse(500, 'configuration_error', error.message);
+        }
+        throw error;
+    }
+
+    let request: CheckedRequest;
+
+    // Reject malformed requests before they count against the caller's limit.
+    try {
+        request = checkRequest(parseRequestBody(event.body));
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return errorResponse(error.statusCode, error.code, error.message);
+        }
+        throw error;
+    }
+
+    const plan = planTransform(request);
+    const cachedResult = await findCachedResult(plan);
+    const limit = cachedResult ? null : await getRateLimiter().check(getClientKey(event), request.variations);
+
+    if (limit && !limit.allowed) {
         return {
-            statusCode: 500,
-            body: JSON.stringify({ error: "An internal error occurred while transforming the image." }),
+            statusCode: 429,
+            headers: { 'Content-Type': 'application/json', 'Retry-After': String(limit.retryAfterSeconds) },
+            body: JSON.stringify({
+                error: limit.reason === 'daily'
+                    ? "Daily transformation quota reached. Please come back tomorrow."
+                    : "Too many transformations in a short time. Please wait a moment.",
+                code: limit.reason === 'daily' ? 'quota_exceeded' : 'rate_limited',
+                retryAfterSeconds: limit.retryAfterSeconds,
+            }),
         };
     }
-};
 
-export { handler };
\ No newline at end of file
+    if (!wantsEventStream(event)) {
+        return transform(plan, cachedResult, provider, () => {});
+    }
+
+    return {
+        statusCode: 200,
+        headers: SSE_HEADERS,
+        body: createEventStream(async (send) => {
+            const response = await transform(plan, cachedResult, provider, stage => send('progress', { stage }));
+            send('result', { statusCode: response.statusCode, body: JSON.parse(response.body ?? '{}') });
+        }),
+    };
+});
+
+export { handler };
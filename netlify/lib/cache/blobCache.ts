@@ -0,0 +1,44 @@
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { BlobStore, CachedResult, ResultCache } from "./types";
+
+export const createBlobCache = (store: BlobStore): ResultCache => ({
+    get: async (key) => {
+        const stored = await store.get(key);
+        if (!stored) return null;
+        try {
+            return JSON.parse(stored) as CachedResult;
+        } catch {
+            return null;
+        }
+    },
+    set: async (key, result) => {
+        await store.set(key, JSON.stringify(result));
+    },
+});
+
+// One JSON file per key. Callers only use hex digests or share ids as keys, so
+// they are always safe file names.
+export const createFileBlobStore = (directory: string): BlobStore => ({
+    get: async (key) => {
+        try {
+            return await readFile(join(directory, `${key}.json`), 'utf8');
+        } catch {
+            return null;
+        }
+    },
+    set: async (key, value) => {
+        await mkdir(directory, { recursive: true });
+        await writeFile(join(directory, `${key}.json`), value, 'utf8');
+    },
+    delete: async (key) => {
+        await rm(join(directory, `${key}.json`), { force: true });
+    },
+    list: async () => {
+        try {
+            return (await readdir(directory)).filter(name => name.endsWith('.json')).map(name => name.slice(0, -'.json'.length));
+        } catch {
+            return [];
+        }
+    },
+});
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createCacheKey, createMemoryCache, type CachedResult } from "./index";
+
+const parts = { imageBytes: Buffer.from('photo'), styleId: 'lofi', promptVersion: 'lofi-v3', prompt: 'make it 2003', variations: 1 };
+
+const result = (bytes: number): CachedResult => ({ images: [{ data: 'A'.repeat(bytes), mimeType: 'image/png' }], model: 'local-echo', createdAt: 0 });
+
+test('cache keys are stable and change with every part of the request', () => {
+    const key = createCacheKey(parts);
+    assert.equal(createCacheKey({ ...parts }), key);
+    assert.match(key, /^[0-9a-f]{64}$/);
+    const variants = [
+        { imageBytes: Buffer.from('other photo') },
+        { styleId: 'cutout' },
+        { promptVersion: 'lofi-v4' },
+        { prompt: 'make it 2004' },
+        { variations: 2 },
+        { previousPrompt: 'make it 2003' },
+        { maskBytes: Buffer.from('mask') },
+    ];
+    const keys = variants.map(change => createCacheKey({ ...parts, ...change }));
+    assert.equal(new Set([key, ...keys]).size, variants.length + 1);
+});
+
+test('the memory cache evicts the least recently used entries', async () => {
+    const cache = createMemoryCache({ maxEntries: 2 });
+    await cache.set('a', result(1));
+    await cache.set('b', result(1));
+    await cache.get('a');
+    await cache.set('c', result(1));
+    assert.notEqual(await cache.get('a'), null);
+    assert.equal(await cache.get('b'), null);
+});
+
+test('the memory cache stays within its byte budget', async () => {
+    const cache = createMemoryCache({ maxBytes: 100 });
+    await cache.set('a', result(60));
+    await cache.set('b', result(30));
+    await cache.set('c', result(30));
+    assert.equal(await cache.get('a'), null);
+    assert.notEqual(await cache.get('b'), null);
+    await cache.set('huge', result(101));
+    assert.equal(await cache.get('huge'), null);
+    assert.notEqual(await cache.get('c'), null);
+});
@@ -0,0 +1,53 @@
+import { createHash } from "node:crypto";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createMemoryCache } from "./memoryCache";
+import { createBlobCache, createFileBlobStore } from "./blobCache";
+import type { ResultCache } from "./types";
+
+export * from "./types";
+export { createMemoryCache } from "./memoryCache";
+export { createBlobCache, createFileBlobStore } from "./blobCache";
+
+export interface CacheKeyParts {
+    imageBytes: Buffer;
+    styleId: string;
+    promptVersion: string;
+    // The fully built prompt, so options such as reserved corners get their own entries.
+    prompt: string;
+    variations: number;
+    // The original prompt, for follow-up edits of an earlier result.
+    previousPrompt?: string;
+    maskBytes?: Buffer;
+}
+
+export const createCacheKey = ({ imageBytes, styleId, promptVersion, prompt, variations, previousPrompt, maskBytes }: CacheKeyParts): string => {
+    const imageHash = createHash('sha256').update(imageBytes).digest('hex');
+    const parts = [imageHash, styleId, promptVersion, prompt, String(variations)];
+    if (previousPrompt !== undefined) parts.push(previousPrompt);
+    if (maskBytes) parts.push(createHash('sha256').update(maskBytes).digest('hex'));
+    return createHash('sha256')
+        .update(parts.join('\u0000'))
+        .digest('hex');
+};
+
+let sharedCache: ResultCache | null | undefined;
+
+// RESULT_CACHE=fs stores results under CACHE_DIR, RESULT_CACHE=off disables
+// caching, and the default keeps them in memory for the life of the instance
+// (within a byte budget; meant for local development).
+export const getResultCache = (env: NodeJS.ProcessEnv = process.env): ResultCache | null => {
+    if (sharedCache === undefined) {
+        switch (env.RESULT_CACHE) {
+            case 'off':
+                sharedCache = null;
+                break;
+            case 'fs':
+                sharedCache = createBlobCache(createFileBlobStore(env.CACHE_DIR || join(tmpdir(), 'flashback-cache')));
+                break;
+            default:
+                sharedCache = createMemoryCache();
+        }
+    }
+    return sharedCache;
+};
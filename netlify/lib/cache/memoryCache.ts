@@ -0,0 +1,45 @@
+import type { CachedResult, ResultCache } from "./types";
+
+export interface MemoryCacheOptions {
+    maxEntries?: number;
+    // Budget for the base64 image data held across all entries. An entry can
+    // carry several full-size images, so the entry count alone doesn't bound memory.
+    maxBytes?: number;
+}
+
+const sizeOf = (result: CachedResult): number => result.images.reduce((total, image) => total + image.data.length, 0);
+
+// Small LRU so a warm function instance doesn't grow without bound.
+export const createMemoryCache = ({ maxEntries = 20, maxBytes = 64 * 1024 * 1024 }: MemoryCacheOptions = {}): ResultCache => {
+    const entries = new Map<string, { result: CachedResult; size: number }>();
+    let totalBytes = 0;
+
+    const remove = (key: string) => {
+        const entry = entries.get(key);
+        if (!entry) return;
+        entries.delete(key);
+        totalBytes -= entry.size;
+    };
+
+    return {
+        get: async (key) => {
+            const entry = entries.get(key);
+            if (!entry) return null;
+            // Re-insert to mark as most recently used.
+            entries.delete(key);
+            entries.set(key, entry);
+            return entry.result;
+        },
+        set: async (key, result) => {
+            remove(key);
+            const size = sizeOf(result);
+            // A result bigger than the whole budget would only evict everything else.
+            if (size > maxBytes) return;
+            entries.set(key, { result, size });
+            totalBytes += size;
+            while (entries.size > maxEntries || totalBytes > maxBytes) {
+                remove(entries.keys().next().value as string);
+            }
+        },
+    };
+};
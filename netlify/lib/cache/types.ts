@@ -0,0 +1,25 @@
+export interface CachedImage {
+    data: string;
+    mimeType: string;
+}
+
+export interface CachedResult {
+    images: CachedImage[];
+    model: string;
+    createdAt: number;
+}
+
+export interface ResultCache {
+    get: (key: string) => Promise<CachedResult | null>;
+    set: (key: string, result: CachedResult) => Promise<void>;
+}
+
+// Minimal string key-value contract, matching what blob stores such as
+// Netlify Blobs or S3 offer. Any implementation can back the result cache
+// and the share store.
+export interface BlobStore {
+    get: (key: string) => Promise<string | null>;
+    set: (key: string, value: string) => Promise<void>;
+    delete: (key: string) => Promise<void>;
+    list: () => Promise<string[]>;
+}
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { CUTOUT_CATALOGUE, selectCutoutObjects } from "../../src/shared/cutoutObjects";
+import { DEFAULT_PROMPT_SETTINGS } from "../../src/shared/promptSettings";
+import { DEFAULT_SUBJECT_SELECTION } from "../../src/shared/subjects";
+import { parsePromptOptions } from "./promptOptions";
+
+const settingsOf = (settings: unknown) => parsePromptOptions({ settings }).settings;
+
+test('missing options and fields fall back to the defaults', () => {
+    assert.deepEqual(parsePromptOptions(undefined), { clearCorners: [], settings: DEFAULT_PROMPT_SETTINGS, subjects: [], subjectSelection: DEFAULT_SUBJECT_SELECTION });
+    assert.deepEqual(settingsOf({ flash: 'harsh' }), { ...DEFAULT_PROMPT_SETTINGS, flash: 'harsh' });
+});
+
+test('rejects anything outside the schema', () => {
+    const rejected = [
+        { tone: 'sepia' },
+        { flash: 'blinding' },
+        { yearFrom: 1990 },
+        { yearFrom: 2008, yearTo: 2004 },
+        { objectCount: 7 },
+        { seed: -1 },
+        { customObjects: ['line one\nline two'] },
+        { pinnedObjects: ['not-in-catalogue'] },
+        { pinnedObjects: ['discman'], excludedObjects: ['discman'] },
+        { excludedObjects: CUTOUT_CATALOGUE.map(object => object.id) },
+        { extraInstructions: 'bell\u0007' },
+    ];
+    for (const settings of rejected) {
+        assert.throws(() => settingsOf(settings), { code: 'invalid_prompt_options', statusCode: 400 }, JSON.stringify(settings));
+    }
+});
+
+test('subject selections must point at the subjects sent with them', () => {
+    const subjects = [{ kind: 'person', x: 0, y: 0, width: 0.5, height: 1 }, { kind: 'person', x: 0.5, y: 0, width: 0.5, height: 1 }];
+    assert.deepEqual(parsePromptOptions({ subjects, subjectSelection: { excluded: [1], grouping: 'individual' } }).subjectSelection, { excluded: [1], grouping: 'individual' });
+    assert.throws(() => parsePromptOptions({ subjects, subjectSelection: { excluded: [2] } }), { code: 'invalid_prompt_options' });
+    assert.throws(() => parsePromptOptions({ subjects, subjectSelection: { excluded: [0, 1] } }), { code: 'invalid_prompt_options' });
+    assert.throws(() => parsePromptOptions({ subjects: [{ ...subjects[0], width: 1.2 }] }), { code: 'invalid_prompt_options' });
+});
+
+test('the same seed always picks the same cutout objects', () => {
+    const settings = settingsOf({ objectCount: 5 });
+    const first = selectCutoutObjects(settings, 1234);
+    assert.deepEqual(selectCutoutObjects(settings, 1234), first);
+    assert.equal(first.objects.length, 5);
+    assert.equal(new Set(first.objects.map(object => object.id)).size, 5);
+    const picks = new Set(Array.from({ length: 20 }, (_, seed) => selectCutoutObjects(settings, seed).objects.map(object => object.id).join()));
+    assert.ok(picks.size > 1);
+});
+
+test('pinned objects always appear and excluded ones never do', () => {
+    const settings = settingsOf({ customObjects: ['A lava lamp'], pinnedObjects: ['custom:A lava lamp', 'floppy-disk'], excludedObjects: ['discman'], objectCount: 3 });
+    for (let seed = 0; seed < 50; seed++) {
+        const ids = selectCutoutObjects(settings, seed).objects.map(object => object.id);
+        assert.equal(ids.length, 3);
+        assert.ok(ids.includes('floppy-disk') && ids.includes('custom:A lava lamp'));
+        assert.ok(!ids.includes('discman'));
+    }
+});
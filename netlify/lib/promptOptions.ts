@@ -0,0 +1,201 @@
+import { isCorner, type PromptOptions } from "../../src/shared/styles";
+import {
+    COLOR_CASTS,
+    DEFAULT_PROMPT_SETTINGS,
+    FLASH_INTENSITIES,
+    MAX_CUSTOM_OBJECT_LENGTH,
+    MAX_CUSTOM_OBJECTS,
+    MAX_EXTRA_INSTRUCTIONS_LENGTH,
+    MAX_OBJECT_COUNT,
+    MAX_YEAR,
+    MIN_OBJECT_COUNT,
+    MIN_YEAR,
+    NOISE_LEVELS,
+    type PromptSettings,
+} from "../../src/shared/promptSettings";
+import { getObjectPool } from "../../src/shared/cutoutObjects";
+import { isSeed, MAX_SEED } from "../../src/shared/random";
+import {
+    CUTOUT_GROUPINGS,
+    DEFAULT_SUBJECT_SELECTION,
+    MAX_SUBJECTS,
+    type SubjectBox,
+    type SubjectKind,
+    type SubjectSelection,
+} from "../../src/shared/subjects";
+import { ValidationError } from "./validation";
+
+const invalid = (message: string) => new ValidationError(400, 'invalid_prompt_options', message);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Control characters other than ordinary whitespace have no business in a prompt.
+export const CONTROL_CHARACTERS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/;
+
+const readEnum = <T extends string>(value: unknown, allowed: readonly T[], field: string): T => {
+    if (!allowed.includes(value as T)) {
+        throw invalid(`${field} must be one of: ${allowed.join(', ')}.`);
+    }
+    return value as T;
+};
+
+const readYear = (value: unknown, field: string): number => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < MIN_YEAR || value > MAX_YEAR) {
+        throw invalid(`${field} must be a year from ${MIN_YEAR} to ${MAX_YEAR}.`);
+    }
+    return value;
+};
+
+const readCustomObjects = (value: unknown): string[] => {
+    if (!Array.isArray(value) || value.length > MAX_CUSTOM_OBJECTS) {
+        throw invalid(`customObjects must list at most ${MAX_CUSTOM_OBJECTS} objects.`);
+    }
+    return value.map(object => {
+        // Each object becomes one line of a bulleted list, so line breaks would let it spill out.
+        if (typeof object !== 'string' || !object.trim() || object.length > MAX_CUSTOM_OBJECT_LENGTH || /[\r\n]/.test(object) || CONTROL_CHARACTERS.test(object)) {
+            throw invalid(`Each custom object must be a single line of at most ${MAX_CUSTOM_OBJECT_LENGTH} characters.`);
+        }
+        return object.trim();
+    });
+};
+
+const readObjectIds = (value: unknown, knownIds: Set<string>, field: string): string[] => {
+    if (!Array.isArray(value) || value.some(id => typeof id !== 'string' || !knownIds.has(id))) {
+        throw invalid(`${field} must only contain ids of catalogue or custom objects.`);
+    }
+    return value;
+};
+
+const readObjectCount = (value: unknown): number => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < MIN_OBJECT_COUNT || value > MAX_OBJECT_COUNT) {
+        throw invalid(`objectCount must be a whole number from ${MIN_OBJECT_COUNT} to ${MAX_OBJECT_COUNT}.`);
+    }
+    return value;
+};
+
+const readSeed = (value: unknown): number | null => {
+    if (value !== null && !isSeed(value)) {
+        throw invalid(`seed must be null or a whole number from 0 to ${MAX_SEED}.`);
+    }
+    return value;
+};
+
+const readExtraInstructions = (value: unknown): string => {
+    if (typeof value !== 'string' || value.length > MAX_EXTRA_INSTRUCTIONS_LENGTH || CONTROL_CHARACTERS.test(value)) {
+        throw invalid(`extraInstructions must be text of at most ${MAX_EXTRA_INSTRUCTIONS_LENGTH} characters.`);
+    }
+    return value.trim();
+};
+
+// Missing fields fall back to the defaults so older clients keep working, but
+// anything present must match the schema exactly; unknown keys are rejected.
+const parsePromptSettings = (value: unknown): PromptSettings => {
+    if (value === undefined) {
+        return DEFAULT_PROMPT_SETTINGS;
+    }
+    if (!isRecord(value)) {
+        throw invalid("promptOptions.settings must be an object.");
+    }
+
+    const unknownKeys = Object.keys(value).filter(key => !(key in DEFAULT_PROMPT_SETTINGS));
+    if (unknownKeys.length > 0) {
+        throw invalid(`Unknown prompt settings: ${unknownKeys.join(', ')}.`);
+    }
+
+    const merged = { ...DEFAULT_PROMPT_SETTINGS, ...value };
+    if (typeof merged.vignette !== 'boolean') {
+        throw invalid("vignette must be true or false.");
+    }
+
+    const customObjects = readCustomObjects(merged.customObjects);
+    const knownIds = new Set(getObjectPool({ customObjects }).map(object => object.id));
+
+    const settings: PromptSettings = {
+        flash: readEnum(merged.flash, FLASH_INTENSITIES, 'flash'),
+        colorCast: readEnum(merged.colorCast, COLOR_CASTS, 'colorCast'),
+        noise: readEnum(merged.noise, NOISE_LEVELS, 'noise'),
+        vignette: merged.vignette,
+        yearFrom: readYear(merged.yearFrom, 'yearFrom'),
+        yearTo: readYear(merged.yearTo, 'yearTo'),
+        customObjects,
+        pinnedObjects: readObjectIds(merged.pinnedObjects, knownIds, 'pinnedObjects'),
+        excludedObjects: readObjectIds(merged.excludedObjects, knownIds, 'excludedObjects'),
+        objectCount: readObjectCount(merged.objectCount),
+        seed: readSeed(merged.seed),
+        extraInstructions: readExtraInstructions(merged.extraInstructions),
+    };
+
+    if (settings.yearFrom > settings.yearTo) {
+        throw invalid("yearFrom must not be later than yearTo.");
+    }
+    if (settings.pinnedObjects.some(id => settings.excludedObjects.includes(id))) {
+        throw invalid("An object can't be both pinned and excluded.");
+    }
+    if (settings.excludedObjects.length >= knownIds.size) {
+        throw invalid("At least one cutout object must stay available.");
+    }
+    return settings;
+};
+
+const SUBJECT_KINDS: readonly SubjectKind[] = ['face', 'person'];
+
+const SUBJECT_KEYS = ['kind', 'x', 'y', 'width', 'height'];
+
+const isFraction = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+// Boxes end up in the prompt, so they must be exactly the shape the client produces.
+const parseSubjects = (value: unknown): SubjectBox[] => {
+    if (value === undefined) {
+        return [];
+    }
+    if (!Array.isArray(value) || value.length > MAX_SUBJECTS) {
+        throw invalid(`subjects must list at most ${MAX_SUBJECTS} boxes.`);
+    }
+    return value.map(box => {
+        if (!isRecord(box) || Object.keys(box).some(key => !SUBJECT_KEYS.includes(key))) {
+            throw invalid(`Each subject must only have ${SUBJECT_KEYS.join(', ')}.`);
+        }
+        const { x, y, width, height } = box;
+        // A little slack for rounding at the right and bottom edges.
+        if (!isFraction(x) || !isFraction(y) || !isFraction(width) || !isFraction(height) || x + width > 1.001 || y + height > 1.001) {
+            throw invalid("Subject boxes must lie within the frame, as fractions from 0 to 1.");
+        }
+        return { kind: readEnum(box.kind, SUBJECT_KINDS, 'kind'), x, y, width, height };
+    });
+};
+
+// Indexes refer to the subjects sent alongside, and at least one person must stay.
+const parseSubjectSelection = (value: unknown, subjects: SubjectBox[]): SubjectSelection => {
+    if (value === undefined) {
+        return DEFAULT_SUBJECT_SELECTION;
+    }
+    if (!isRecord(value) || Object.keys(value).some(key => !(key in DEFAULT_SUBJECT_SELECTION))) {
+        throw invalid("subjectSelection must only have excluded and grouping.");
+    }
+    const { excluded = [], grouping = DEFAULT_SUBJECT_SELECTION.grouping } = value;
+    if (!Array.isArray(excluded) || excluded.some(index => !Number.isInteger(index) || index < 0 || index >= subjects.length) || new Set(excluded).size !== excluded.length) {
+        throw invalid("subjectSelection.excluded must list distinct indexes into subjects.");
+    }
+    if (subjects.length > 0 && excluded.length >= subjects.length) {
+        throw invalid("At least one subject must stay in the cutout.");
+    }
+    return { excluded, grouping: readEnum(grouping, CUTOUT_GROUPINGS, 'grouping') };
+};
+
+export const parsePromptOptions = (value: unknown): PromptOptions => {
+    if (value === undefined) {
+        return { clearCorners: [], settings: DEFAULT_PROMPT_SETTINGS, subjects: [], subjectSelection: DEFAULT_SUBJECT_SELECTION };
+    }
+    if (!isRecord(value)) {
+        throw invalid("promptOptions must be an object.");
+    }
+    const subjects = parseSubjects(value.subjects);
+    return {
+        // Unknown corners are dropped rather than rejected; they only ever make the prompt stricter.
+        clearCorners: Array.isArray(value.clearCorners) ? value.clearCorners.filter(isCorner) : [],
+        settings: parsePromptSettings(value.settings),
+        subjects,
+        subjectSelection: parseSubjectSelection(value.subjectSelection, subjects),
+    };
+};
@@ -0,0 +1,58 @@
+import { GoogleGenAI, Modality, type GenerateContentResponse } from "@google/genai";
+import type { ImageProvider, ProviderImage } from "./types";
+
+const GEMINI_MODEL = 'gemini-2.5-flash-image-preview';
+
+// Every inline image in every candidate, not just the first one.
+const extractImages = (response: GenerateContentResponse): ProviderImage[] => {
+    const images: ProviderImage[] = [];
+
+    for (const candidate of response.candidates ?? []) {
+        for (const part of candidate.content?.parts ?? []) {
+            if (part.inlineData && part.inlineData.data) {
+                images.push({ data: part.inlineData.data, mimeType: part.inlineData.mimeType ?? 'image/png' });
+            }
+        }
+    }
+
+    return images;
+};
+
+export const createGeminiProvider = (apiKey: string): ImageProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: 'gemini',
+        model: GEMINI_MODEL,
+        generate: async ({ base64ImageData, mimeType, prompt, previousPrompt, mask, count }) => {
+            const image = { inlineData: { data: base64ImageData, mimeType: mimeType } };
+            // A follow-up replays the earlier exchange so the model edits its own
+            // output rather than starting from scratch.
+            const contents = previousPrompt === undefined
+                ? { parts: [image, { text: prompt }] }
+                : [
+                    { role: 'user', parts: [{ text: previousPrompt }] },
+                    { role: 'model', parts: [image] },
+                    { role: 'user', parts: mask ? [{ inlineData: mask }, { text: prompt }] : [{ text: prompt }] },
+                ];
+            const request = () => ai.models.generateContent({
+                model: GEMINI_MODEL,
+                contents,
+                config: {
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                },
+            });
+
+            // The image model only returns a single candidate per call, so
+            // variations are separate calls. One failing shouldn't sink the rest.
+            const settled = await Promise.allSettled(Array.from({ length: count }, request));
+            const responses = settled.flatMap(outcome => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+
+            if (responses.length === 0) {
+                throw (settled[0] as PromiseRejectedResult).reason;
+            }
+
+            return { images: responses.flatMap(extractImages).slice(0, count), raw: responses };
+        },
+    };
+};
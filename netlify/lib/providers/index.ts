@@ -0,0 +1,21 @@
+import { createGeminiProvider } from "./gemini";
+import { createLocalProvider } from "./local";
+import { ProviderConfigurationError, type ImageProvider } from "./types";
+
+export * from "./types";
+
+// IMAGE_PROVIDER=local selects the offline adapter; anything else uses Gemini.
+export const getImageProvider = (env: NodeJS.ProcessEnv = process.env): ImageProvider => {
+    if (env.IMAGE_PROVIDER === 'local') {
+        return createLocalProvider({
+            fixturePath: env.LOCAL_PROVIDER_FIXTURE || undefined,
+            delayMs: Number(env.LOCAL_PROVIDER_DELAY_MS) || 0,
+        });
+    }
+
+    if (!env.API_KEY) {
+        throw new ProviderConfigurationError("Server configuration error: API key is not set up.");
+    }
+
+    return createGeminiProvider(env.API_KEY);
+};
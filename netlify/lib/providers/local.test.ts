@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { getImageProvider } from "./index";
+import { createLocalProvider } from "./local";
+
+const request = { base64ImageData: 'aW1hZ2U=', mimeType: 'image/png', prompt: 'make it 2003', count: 3 };
+
+test('echoes the upload once per requested image', async () => {
+    const provider = createLocalProvider();
+    const result = await provider.generate(request);
+    assert.equal(provider.model, 'local-echo');
+    assert.deepEqual(result.images, Array.from({ length: 3 }, () => ({ data: 'aW1hZ2U=', mimeType: 'image/png' })));
+});
+
+test('returns the fixture with its mime type', async (t) => {
+    const directory = await mkdtemp(join(tmpdir(), 'flashback-fixture-'));
+    t.after(() => rm(directory, { recursive: true, force: true }));
+    const fixturePath = join(directory, 'result.jpg');
+    await writeFile(fixturePath, Buffer.from([0xff, 0xd8, 0xff]));
+    const provider = createLocalProvider({ fixturePath });
+    const result = await provider.generate({ ...request, count: 1 });
+    assert.equal(provider.model, 'local-fixture');
+    assert.deepEqual(result.images, [{ data: '/9j/', mimeType: 'image/jpeg' }]);
+});
+
+test('is selected by IMAGE_PROVIDER=local without an API key', () => {
+    assert.equal(getImageProvider({ IMAGE_PROVIDER: 'local' }).name, 'local');
+    assert.throws(() => getImageProvider({}), { name: 'ProviderConfigurationError' });
+});
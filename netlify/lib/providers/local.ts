@@ -0,0 +1,42 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import type { ImageProvider } from "./types";
+
+const FIXTURE_MIME_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+};
+
+interface LocalProviderOptions {
+    // Image file returned for every request. Without one, the upload is echoed back.
+    fixturePath?: string;
+    // Artificial latency so loading states can be exercised.
+    delayMs?: number;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Deterministic, offline stand-in for the real model: the same input always
+// produces the same output and no network or API key is needed.
+export const createLocalProvider = ({ fixturePath, delayMs = 0 }: LocalProviderOptions = {}): ImageProvider => ({
+    name: 'local',
+    model: fixturePath ? 'local-fixture' : 'local-echo',
+    generate: async ({ base64ImageData, mimeType, count }) => {
+        if (delayMs > 0) {
+            await wait(delayMs);
+        }
+
+        if (fixturePath) {
+            const fixture = await readFile(fixturePath);
+            const image = {
+                data: fixture.toString('base64'),
+                mimeType: FIXTURE_MIME_TYPES[extname(fixturePath).toLowerCase()] ?? 'image/png',
+            };
+            return { images: Array.from({ length: count }, () => image) };
+        }
+
+        return { images: Array.from({ length: count }, () => ({ data: base64ImageData, mimeType })) };
+    },
+});
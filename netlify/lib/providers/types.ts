@@ -0,0 +1,37 @@
+export interface ProviderImage {
+    data: string;
+    mimeType: string;
+}
+
+export interface ProviderRequest {
+    base64ImageData: string;
+    mimeType: string;
+    prompt: string;
+    // Set for follow-up edits: the input image is the model's own earlier
+    // answer to this prompt, and `prompt` is the follow-up instruction.
+    previousPrompt?: string;
+    // Region to change in a follow-up edit: white where the image may change.
+    mask?: ProviderImage;
+    // Number of independent images wanted. Providers return what they manage
+    // to produce, which may be fewer.
+    count: number;
+}
+
+export interface ProviderResult {
+    images: ProviderImage[];
+    // Untouched provider response, kept for logging when no image comes back.
+    raw?: unknown;
+}
+
+export interface ImageProvider {
+    name: string;
+    model: string;
+    generate: (request: ProviderRequest) => Promise<ProviderResult>;
+}
+
+export class ProviderConfigurationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProviderConfigurationError';
+    }
+}
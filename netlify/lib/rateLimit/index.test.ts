@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { HandlerEvent } from "@netlify/functions";
+import { createMemoryStore, createRateLimiter, getClientKey } from "./index";
+
+const WINDOW_MS = 60_000;
+const NOW = Date.UTC(2026, 0, 1, 12);
+
+const limiter = (maxPerWindow = 3, dailyQuota = 10) => createRateLimiter({ store: createMemoryStore(), windowMs: WINDOW_MS, maxPerWindow, dailyQuota });
+
+test('allows requests up to the window limit, then asks the client to wait', async () => {
+    const { check } = limiter();
+    for (let i = 0; i < 3; i++) {
+        assert.equal((await check('client', 1, NOW + i * 1000)).allowed, true);
+    }
+    assert.deepEqual(await check('client', 1, NOW + 3000), { allowed: false, reason: 'window', retryAfterSeconds: 57 });
+    assert.equal((await check('client', 1, NOW + WINDOW_MS + 1)).allowed, true);
+    assert.equal((await check('other', 1, NOW + 3000)).allowed, true);
+});
+
+test('charges every model call of a multi-variation request', async () => {
+    const { check } = limiter();
+    assert.deepEqual(await check('client', 2, NOW), { allowed: true, remaining: 1 });
+    assert.equal((await check('client', 2, NOW)).allowed, false);
+});
+
+test('lets a request bigger than the window in only when the window is empty, charging it in full', async () => {
+    const { check } = limiter(2, 10);
+    assert.equal((await check('client', 1, NOW)).allowed, true);
+    assert.equal((await check('client', 4, NOW + 1000)).allowed, false);
+    assert.equal((await check('client', 4, NOW + WINDOW_MS + 1)).allowed, true);
+    assert.equal((await check('client', 1, NOW + WINDOW_MS + 2)).allowed, false);
+    // 1 + 4 used; another four would pass the window but not the daily quota.
+    assert.equal((await check('client', 4, NOW + 3 * WINDOW_MS)).allowed, true);
+    assert.deepEqual(await check('client', 4, NOW + 5 * WINDOW_MS), { allowed: false, reason: 'daily', retryAfterSeconds: 12 * 60 * 60 - 5 * 60 });
+});
+
+test('resets the daily quota at midnight UTC', async () => {
+    const { check } = limiter(10, 2);
+    await check('client', 2, NOW);
+    assert.equal((await check('client', 1, NOW + WINDOW_MS)).allowed, false);
+    assert.equal((await check('client', 1, NOW + 12 * 60 * 60 * 1000)).allowed, true);
+});
+
+test('keys clients on their IP unless session keys are enabled', () => {
+    const event = { headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'x-session-token': 'abc' } } as unknown as HandlerEvent;
+    assert.equal(getClientKey(event, {}), 'ip:203.0.113.7');
+    assert.equal(getClientKey(event, { RATE_LIMIT_KEY: 'session' }), 'session:abc');
+});
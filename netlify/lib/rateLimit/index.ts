@@ -0,0 +1,93 @@
+import type { HandlerEvent } from "@netlify/functions";
+import { createMemoryStore } from "./memoryStore";
+import type { RateLimitDecision, RateLimitRecord, RateLimitStore } from "./types";
+
+export * from "./types";
+export { createMemoryStore } from "./memoryStore";
+
+export interface RateLimitOptions {
+    store: RateLimitStore;
+    windowMs: number;
+    maxPerWindow: number;
+    dailyQuota: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const utcDay = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+const msUntilNextUtcDay = (time: number): number => DAY_MS - (time % DAY_MS);
+
+export interface RateLimiter {
+    // `cost` is the number of model calls the request will make.
+    check: (key: string, cost?: number, now?: number) => Promise<RateLimitDecision>;
+}
+
+// Sliding-window log plus a per-UTC-day quota. Only allowed requests are
+// recorded, so a client hammering the endpoint while limited doesn't extend
+// its own cooldown.
+export const createRateLimiter = ({ store, windowMs, maxPerWindow, dailyQuota }: RateLimitOptions): RateLimiter => ({
+    check: async (key, cost = 1, now = Date.now()) => {
+        const units = Math.max(1, cost);
+        const today = utcDay(now);
+        const existing = await store.get(key);
+        const record: RateLimitRecord = existing && existing.day === today
+            ? { ...existing, timestamps: existing.timestamps.filter(time => time > now - windowMs) }
+            : { timestamps: (existing?.timestamps ?? []).filter(time => time > now - windowMs), day: today, dailyCount: 0 };
+
+        if (record.dailyCount + units > dailyQuota) {
+            return { allowed: false, reason: 'daily', retryAfterSeconds: Math.ceil(msUntilNextUtcDay(now) / 1000) };
+        }
+
+        // A request bigger than a whole window could never fit, so it is let in
+        // once the window is empty. It is still charged in full, so the next
+        // requests wait until all of its calls have left the window.
+        if (record.timestamps.length > 0 && record.timestamps.length + units > maxPerWindow) {
+            // Wait until enough of the oldest entries have left the window.
+            const freedBy = record.timestamps[Math.min(record.timestamps.length, record.timestamps.length + units - maxPerWindow) - 1];
+            return { allowed: false, reason: 'window', retryAfterSeconds: Math.max(1, Math.ceil((freedBy + windowMs - now) / 1000)) };
+        }
+
+        for (let i = 0; i < units; i++) {
+            record.timestamps.push(now);
+        }
+        record.dailyCount += units;
+        await store.set(key, record, Math.max(windowMs, msUntilNextUtcDay(now)));
+
+        return { allowed: true, remaining: Math.max(0, Math.min(maxPerWindow - record.timestamps.length, dailyQuota - record.dailyCount)) };
+    },
+});
+
+const header = (event: HandlerEvent, name: string): string | undefined => event.headers[name] ?? event.headers[name.toLowerCase()];
+
+// RATE_LIMIT_KEY=session keys on the client's session token instead of its IP,
+// which is fairer when many guests share one venue Wi-Fi but trivially
+// bypassable, so IP stays the default.
+export const getClientKey = (event: HandlerEvent, env: NodeJS.ProcessEnv = process.env): string => {
+    const sessionToken = header(event, 'x-session-token');
+    if (env.RATE_LIMIT_KEY === 'session' && sessionToken) {
+        return `session:${sessionToken.slice(0, 128)}`;
+    }
+
+    const ip = header(event, 'x-nf-client-connection-ip')
+        ?? header(event, 'x-forwarded-for')?.split(',')[0].trim()
+        ?? header(event, 'client-ip');
+    if (ip) return `ip:${ip}`;
+
+    return sessionToken ? `session:${sessionToken.slice(0, 128)}` : 'anonymous';
+};
+
+let sharedLimiter: RateLimiter | null = null;
+
+// One limiter per function instance, configured from the environment.
+export const getRateLimiter = (env: NodeJS.ProcessEnv = process.env): RateLimiter => {
+    if (!sharedLimiter) {
+        sharedLimiter = createRateLimiter({
+            store: createMemoryStore(),
+            windowMs: Number(env.RATE_LIMIT_WINDOW_MS) || 60_000,
+            maxPerWindow: Number(env.RATE_LIMIT_MAX) || 5,
+            dailyQuota: Number(env.RATE_LIMIT_DAILY) || 50,
+        });
+    }
+    return sharedLimiter;
+};
@@ -0,0 +1,22 @@
+import type { RateLimitRecord, RateLimitStore } from "./types";
+
+// Lives as long as the function instance stays warm, which is good enough for
+// local development and tests but not shared between instances.
+export const createMemoryStore = (): RateLimitStore => {
+    const records = new Map<string, { record: RateLimitRecord; expiresAt: number }>();
+
+    return {
+        get: async (key) => {
+            const entry = records.get(key);
+            if (!entry) return null;
+            if (entry.expiresAt <= Date.now()) {
+                records.delete(key);
+                return null;
+            }
+            return entry.record;
+        },
+        set: async (key, record, ttlMs) => {
+            records.set(key, { record, expiresAt: Date.now() + ttlMs });
+        },
+    };
+};
@@ -0,0 +1,18 @@
+export interface RateLimitRecord {
+    // Request times (ms) inside the current sliding window.
+    timestamps: number[];
+    // UTC day (YYYY-MM-DD) the daily count belongs to.
+    day: string;
+    dailyCount: number;
+}
+
+// Anything that can hold a small record per client: memory for local runs and
+// tests, or a shared key-value/blob store in production.
+export interface RateLimitStore {
+    get: (key: string) => Promise<RateLimitRecord | null>;
+    set: (key: string, record: RateLimitRecord, ttlMs: number) => Promise<void>;
+}
+
+export type RateLimitDecision =
+    | { allowed: true; remaining: number }
+    | { allowed: false; reason: 'window' | 'daily'; retryAfterSeconds: number };
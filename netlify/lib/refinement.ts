@@ -0,0 +1,57 @@
+import { MAX_REFINEMENT_HISTORY, MAX_REFINEMENT_INSTRUCTION_LENGTH, type RefinementRequest } from "../../src/shared/refinement";
+import { CONTROL_CHARACTERS } from "./promptOptions";
+import { validateImage, ValidationError, type ValidatedImage } from "./validation";
+
+const invalid = (message: string) => new ValidationError(400, 'invalid_refinement', message);
+
+const readInstruction = (value: unknown, field: string): string => {
+    if (typeof value !== 'string' || !value.trim() || value.length > MAX_REFINEMENT_INSTRUCTION_LENGTH || /[\r\n]/.test(value) || CONTROL_CHARACTERS.test(value)) {
+        throw invalid(`${field} must be a single line of at most ${MAX_REFINEMENT_INSTRUCTION_LENGTH} characters.`);
+    }
+    return value.trim();
+};
+
+// Absent means a normal transformation; anything present must match the schema exactly.
+export const parseRefinement = (value: unknown): RefinementRequest | null => {
+    if (value === undefined || value === null) {
+        return null;
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        throw invalid("refinement must be an object.");
+    }
+
+    const { instruction, previousInstructions = [], mask, ...rest } = value as Record<string, unknown>;
+    if (Object.keys(rest).length > 0) {
+        throw invalid(`Unknown refinement fields: ${Object.keys(rest).join(', ')}.`);
+    }
+    if (!Array.isArray(previousInstructions) || previousInstructions.length > MAX_REFINEMENT_HISTORY) {
+        throw invalid(`previousInstructions must list at most ${MAX_REFINEMENT_HISTORY} instructions.`);
+    }
+    // The mask's contents are checked alongside the image it belongs to.
+    if (mask !== undefined && (typeof mask !== 'string' || !mask)) {
+        throw invalid("mask must be base64 PNG data.");
+    }
+
+    return {
+        instruction: readInstruction(instruction, 'instruction'),
+        previousInstructions: previousInstructions.map(text => readInstruction(text, 'Each previous instruction')),
+        ...(mask === undefined ? {} : { mask }),
+    };
+};
+
+// Masks must be PNGs matching the image exactly, or the browser couldn't line the edit up again.
+export const validateMask = (mask: string, image: ValidatedImage): ValidatedImage => {
+    let validated: ValidatedImage;
+    try {
+        validated = validateImage(mask, 'image/png');
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            throw new ValidationError(error.statusCode, 'invalid_mask', `The edit mask is not usable: ${error.message}`);
+        }
+        throw error;
+    }
+    if (validated.width !== image.width || validated.height !== image.height) {
+        throw new ValidationError(400, 'invalid_mask', `The edit mask must be ${image.width}x${image.height} pixels, the same size as the image.`);
+    }
+    return validated;
+};
@@ -0,0 +1,19 @@
+import type { BlobStore } from "../cache";
+import type { SharedResult, ShareStore } from "./types";
+
+export const createBlobShareStore = (store: BlobStore): ShareStore => ({
+    get: async (id) => {
+        const stored = await store.get(id);
+        if (!stored) return null;
+        try {
+            return JSON.parse(stored) as SharedResult;
+        } catch {
+            return null;
+        }
+    },
+    put: async (share) => {
+        await store.set(share.id, JSON.stringify(share));
+    },
+    delete: (id) => store.delete(id),
+    list: () => store.list(),
+});
@@ -0,0 +1,41 @@
+import { randomBytes } from "node:crypto";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createFileBlobStore } from "../cache";
+import { createBlobShareStore } from "./blobShareStore";
+import type { SharedResult, ShareStore } from "./types";
+
+export * from "./types";
+export { createBlobShareStore } from "./blobShareStore";
+export { renderSharePage, renderMissingSharePage } from "./page";
+
+export const createShareId = (): string => randomBytes(9).toString('base64url');
+
+export const isExpired = (share: SharedResult, now = Date.now()): boolean => share.expiresAt <= now;
+
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+let lastSweep = 0;
+
+// Expired shares are also dropped when opened, but links nobody visits again
+// would stay forever without this. Reading every share is slow on a big
+// store, so each instance sweeps at most once per SWEEP_INTERVAL_MS.
+export const sweepExpiredShares = async (store: ShareStore, now = Date.now()): Promise<void> => {
+    if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+    lastSweep = now;
+    for (const id of await store.list()) {
+        const share = await store.get(id);
+        if (share && isExpired(share, now)) await store.delete(id);
+    }
+};
+
+let sharedStore: ShareStore | null = null;
+
+// Shares live as JSON files under SHARE_DIR. That is enough for local
+// development; a deployment that needs links to outlive the function instance
+// should back the store with a persistent blob store instead.
+export const getShareStore = (env: NodeJS.ProcessEnv = process.env): ShareStore => {
+    if (!sharedStore) {
+        sharedStore = createBlobShareStore(createFileBlobStore(env.SHARE_DIR || join(tmpdir(), 'flashback-shares')));
+    }
+    return sharedStore;
+};
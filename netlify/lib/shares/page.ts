@@ -0,0 +1,69 @@
+import { getStyle } from "../../../src/shared/styles";
+import type { SharedResult } from "./types";
+
+const escapeHtml = (value: string): string => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const SITE_NAME = 'Early 2000s Photo Flashback';
+
+const PAGE_STYLES = `
+    body { margin: 0; min-height: 100vh; display: flex; flex-direction: column; align-items: center; justify-content: center; gap: 1.5rem; padding: 2rem 1rem; box-sizing: border-box; font-family: 'Roboto', sans-serif; color: #fff; background: linear-gradient(-45deg, #000000, #1e0026, #05053d, #000000); }
+    h1 { margin: 0; font-family: 'Orbitron', sans-serif; font-size: 1.75rem; text-align: center; }
+    img { max-width: min(100%, 960px); max-height: 75vh; border-radius: 0.75rem; border: 1px solid rgba(255, 255, 255, 0.1); }
+    p { margin: 0; color: #9ca3af; font-size: 0.875rem; text-align: center; }
+    a.cta { color: #fff; font-weight: 700; text-decoration: none; padding: 0.75rem 2rem; border-radius: 9999px; background: linear-gradient(to right, #ec4899, #9333ea); }
+`;
+
+const renderDocument = (title: string, head: string, body: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta name="robots" content="noindex" />
+    <title>${escapeHtml(title)}</title>
+${head}
+    <link href="https://fonts.googleapis.com/css2?family=Orbitron:wght@400..900&family=Roboto:wght@400;500;700&display=swap" rel="stylesheet">
+    <style>${PAGE_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+// `origin` is needed because Open Graph consumers only accept absolute URLs.
+export const renderSharePage = (share: SharedResult, origin: string): string => {
+    const styleTitle = getStyle(share.styleId)?.title ?? 'Early 2000s';
+    const title = `${styleTitle} · ${SITE_NAME}`;
+    const description = `A photo sent back to the early 2000s with the ${styleTitle} style.`;
+    const pageUrl = `${origin}/s/${share.id}`;
+    const imageUrl = `${pageUrl}/image`;
+    const expiry = `\n    <p>This link expires on ${escapeHtml(new Date(share.expiresAt).toUTCString())}.</p>`;
+
+    const head = [
+        ['og:type', 'website'],
+        ['og:site_name', SITE_NAME],
+        ['og:title', title],
+        ['og:description', description],
+        ['og:url', pageUrl],
+        ['og:image', imageUrl],
+        ['og:image:type', share.mimeType],
+    ].map(([property, content]) => `    <meta property="${property}" content="${escapeHtml(content)}" />`)
+        .concat([
+            `    <meta name="description" content="${escapeHtml(description)}" />`,
+            `    <meta name="twitter:card" content="summary_large_image" />`,
+        ])
+        .join('\n');
+
+    return renderDocument(title, head, `    <h1>${escapeHtml(styleTitle)}</h1>
+    <img src="${escapeHtml(imageUrl)}" alt="${escapeHtml(`${styleTitle} photo`)}" />${expiry}
+    <a class="cta" href="/">Make your own</a>`);
+};
+
+export const renderMissingSharePage = (): string => renderDocument(`Link not found · ${SITE_NAME}`, '', `    <h1>Link not found</h1>
+    <p>This share link doesn't exist or has expired.</p>
+    <a class="cta" href="/">Make your own</a>`);
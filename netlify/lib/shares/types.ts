@@ -0,0 +1,16 @@
+export interface SharedResult {
+    id: string;
+    styleId: string;
+    // Base64 image bytes, as returned by the transform function.
+    data: string;
+    mimeType: string;
+    createdAt: number;
+    expiresAt: number;
+}
+
+export interface ShareStore {
+    get: (id: string) => Promise<SharedResult | null>;
+    put: (share: SharedResult) => Promise<void>;
+    delete: (id: string) => Promise<void>;
+    list: () => Promise<string[]>;
+}
@@ -0,0 +1,29 @@
+import { PassThrough, type Readable } from "node:stream";
+import type { HandlerEvent } from "@netlify/functions";
+
+export const wantsEventStream = (event: HandlerEvent): boolean => {
+    const accept = event.headers['accept'] ?? event.headers['Accept'] ?? '';
+    return accept.includes('text/event-stream');
+};
+
+export const formatSseEvent = (name: string, data: unknown): string => `event: ${name}\ndata: ${JSON.stringify(data)}\n\n`;
+
+export const SSE_HEADERS = {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+};
+
+// Runs `work` while streaming whatever it sends as server-sent events, then closes the stream.
+export const createEventStream = (work: (send: (name: string, data: unknown) => void) => Promise<void>): Readable => {
+    const output = new PassThrough();
+    const send = (name: string, data: unknown) => {
+        output.write(formatSseEvent(name, data));
+    };
+
+    work(send)
+        .catch(error => console.error("Event stream failed:", error))
+        .finally(() => output.end());
+
+    return output;
+};
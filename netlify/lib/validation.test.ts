@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MAX_IMAGE_EDGE, MAX_UPLOAD_BYTES } from "../../src/shared/limits";
+import { validateImage } from "./validation";
+
+// Just enough of a PNG for the signature and IHDR dimensions to be read.
+const png = (width: number, height: number): string => {
+    const bytes = Buffer.alloc(33);
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(bytes);
+    bytes.writeUInt32BE(width, 16);
+    bytes.writeUInt32BE(height, 20);
+    return bytes.toString('base64');
+};
+
+test('accepts an image that matches its declared type', () => {
+    const image = validateImage(png(640, 480), 'image/png');
+    assert.equal(image.mimeType, 'image/png');
+    assert.equal(image.width, 640);
+    assert.equal(image.height, 480);
+});
+
+test('rejects undeclared, mismatched and unknown types', () => {
+    assert.throws(() => validateImage(png(10, 10), 'image/gif'), { code: 'unsupported_media_type', statusCode: 415 });
+    assert.throws(() => validateImage(png(10, 10), 'image/jpeg'), { code: 'type_mismatch', statusCode: 415 });
+    assert.throws(() => validateImage(Buffer.from('not an image').toString('base64'), 'image/png'), { code: 'unsupported_media_type' });
+});
+
+test('rejects malformed base64', () => {
+    assert.throws(() => validateImage('abc', 'image/png'), { code: 'invalid_base64', statusCode: 400 });
+    assert.throws(() => validateImage('', 'image/png'), { code: 'invalid_base64' });
+});
+
+test('rejects images over the byte and pixel limits', () => {
+    assert.throws(() => validateImage('A'.repeat(Math.ceil(MAX_UPLOAD_BYTES / 3) * 4 + 8), 'image/png'), { code: 'payload_too_large', statusCode: 413 });
+    assert.throws(() => validateImage(png(MAX_IMAGE_EDGE + 1, 10), 'image/png'), { code: 'dimensions_too_large', statusCode: 413 });
+    assert.throws(() => validateImage(png(0, 10), 'image/png'), { code: 'unsupported_media_type' });
+});
@@ -0,0 +1,122 @@
+import { ACCEPTED_UPLOAD_TYPES, MAX_IMAGE_EDGE, MAX_IMAGE_PIXELS, MAX_UPLOAD_BYTES, type AcceptedUploadType } from "../../src/shared/limits";
+import type { TransformErrorCode } from "../../src/shared/errors";
+
+export class ValidationError extends Error {
+    constructor(public readonly statusCode: 400 | 413 | 415, public readonly code: TransformErrorCode, message: string) {
+        super(message);
+        this.name = 'ValidationError';
+    }
+}
+
+export interface ValidatedImage {
+    bytes: Buffer;
+    mimeType: AcceptedUploadType;
+    width: number;
+    height: number;
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const isAcceptedType = (value: string): value is AcceptedUploadType => (ACCEPTED_UPLOAD_TYPES as readonly string[]).includes(value);
+
+export const decodeBase64 = (data: string): Buffer => {
+    // Checking the length up front avoids decoding a huge payload just to reject it.
+    if (Math.floor(data.length / 4) * 3 > MAX_UPLOAD_BYTES + 3) {
+        throw new ValidationError(413, 'payload_too_large', `Images must be smaller than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB.`);
+    }
+    if (data.length === 0 || data.length % 4 !== 0 || !BASE64_PATTERN.test(data)) {
+        throw new ValidationError(400, 'invalid_base64', "The image data is not valid base64.");
+    }
+    const bytes = Buffer.from(data, 'base64');
+    if (bytes.length > MAX_UPLOAD_BYTES) {
+        throw new ValidationError(413, 'payload_too_large', `Images must be smaller than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB.`);
+    }
+    return bytes;
+};
+
+export const sniffImageType = (bytes: Buffer): AcceptedUploadType | null => {
+    if (bytes.length >= 8 && bytes.readUInt32BE(0) === 0x89504e47 && bytes.readUInt32BE(4) === 0x0d0a1a0a) {
+        return 'image/png';
+    }
+    if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (bytes.length >= 12 && bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') {
+        return 'image/webp';
+    }
+    return null;
+};
+
+const readJpegDimensions = (bytes: Buffer): { width: number; height: number } | null => {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xff) return null;
+        const marker = bytes[offset + 1];
+        // Padding bytes between markers.
+        if (marker === 0xff) {
+            offset += 1;
+            continue;
+        }
+        const length = bytes.readUInt16BE(offset + 2);
+        // SOF0..SOF15, excluding DHT (C4), JPG (C8) and DAC (CC).
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { height: bytes.readUInt16BE(offset + 5), width: bytes.readUInt16BE(offset + 7) };
+        }
+        offset += 2 + length;
+    }
+    return null;
+};
+
+const readWebpDimensions = (bytes: Buffer): { width: number; height: number } | null => {
+    const chunk = bytes.toString('ascii', 12, 16);
+    if (chunk === 'VP8X' && bytes.length >= 30) {
+        return { width: 1 + bytes.readUIntLE(24, 3), height: 1 + bytes.readUIntLE(27, 3) };
+    }
+    if (chunk === 'VP8 ' && bytes.length >= 30) {
+        return { width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === 'VP8L' && bytes.length >= 25) {
+        const bits = bytes.readUInt32LE(21);
+        return { width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+    }
+    return null;
+};
+
+export const readImageDimensions = (bytes: Buffer, type: AcceptedUploadType): { width: number; height: number } | null => {
+    switch (type) {
+        case 'image/png':
+            return bytes.length >= 24 ? { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) } : null;
+        case 'image/jpeg':
+            return readJpegDimensions(bytes);
+        case 'image/webp':
+            return readWebpDimensions(bytes);
+    }
+};
+
+// Decodes the upload and checks it really is the image type it claims to be,
+// within the byte and pixel limits.
+export const validateImage = (base64ImageData: string, declaredMimeType: string): ValidatedImage => {
+    if (!isAcceptedType(declaredMimeType)) {
+        throw new ValidationError(415, 'unsupported_media_type', `Unsupported image type "${declaredMimeType}". Please upload a PNG, JPEG or WebP image.`);
+    }
+
+    const bytes = decodeBase64(base64ImageData);
+    const actualType = sniffImageType(bytes);
+
+    if (!actualType) {
+        throw new ValidationError(415, 'unsupported_media_type', "The uploaded file is not a PNG, JPEG or WebP image.");
+    }
+    if (actualType !== declaredMimeType) {
+        throw new ValidationError(415, 'type_mismatch', `The image was declared as ${declaredMimeType} but is actually ${actualType}.`);
+    }
+
+    const dimensions = readImageDimensions(bytes, actualType);
+    if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+        throw new ValidationError(415, 'unsupported_media_type', "The image appears to be corrupt.");
+    }
+    if (dimensions.width > MAX_IMAGE_EDGE || dimensions.height > MAX_IMAGE_EDGE || dimensions.width * dimensions.height > MAX_IMAGE_PIXELS) {
+        throw new ValidationError(413, 'dimensions_too_large', `Images must be at most ${MAX_IMAGE_EDGE}px on each side.`);
+    }
+
+    return { bytes, mimeType: actualType, ...dimensions };
+};
@@ -1,130 +1,275 @@
 
-import React, { useState, useCallback, useMemo } from 'react';
-import { transformImage } from './services/geminiService';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { Header } from './components/Header';
 import { Footer } from './components/Footer';
 import { Loader } from './components/Loader';
-import { UploadIcon, SparklesIcon, ArrowPathIcon, CameraIcon, ScissorsIcon, ArrowDownTrayIcon } from './components/icons';
-
-type AppState = 'idle' | 'loading' | 'displaying' | 'error';
-export type TransformStyle = 'lofi' | 'cutout';
-
-const fileToBase64 = (file: File): Promise<{ base64: string; mimeType: string }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const result = reader.result as string;
-      const [mimePart, base64Part] = result.split(',');
-      if (!mimePart || !base64Part) {
-        reject(new Error('Invalid file format'));
-        return;
-      }
-      const mimeType = mimePart.split(':')[1].split(';')[0];
-      resolve({ base64: base64Part, mimeType });
-    };
-    reader.onerror = (error) => reject(error);
-  });
+import { AlbumGrid } from './components/AlbumGrid';
+import { DateStampPanel } from './components/DateStampPanel';
+import { WatermarkPanel } from './components/WatermarkPanel';
+import { UploadSettingsPanel } from './components/UploadSettingsPanel';
+import { AdvancedPanel, type PromptPresets } from './components/AdvancedPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { SharePanel } from './components/SharePanel';
+import { AnimationExportPanel } from './components/AnimationExportPanel';
+import { RefinementPanel } from './components/RefinementPanel';
+import { MaskEditor } from './components/MaskEditor';
+import { VariationStrip } from './components/VariationStrip';
+import { CompareView } from './components/CompareView';
+import { SubjectPicker } from './components/SubjectPicker';
+import { PrintPanel } from './components/PrintPanel';
+import { UploadIcon, SparklesIcon, ArrowPathIcon, CameraIcon, ScissorsIcon, ArrowDownTrayIcon, PrinterIcon } from './components/icons';
+import { useTransformQueue, hasVisibleResult, type PendingRefinement, type ResultVersion } from './hooks/useTransformQueue';
+import { usePersistentState } from './hooks/usePersistentState';
+import { useHistory } from './hooks/useHistory';
+import { collectDroppedFiles, isImageFile, ACCEPTED_IMAGE_TYPES } from './services/imageFiles';
+import { buildAlbumZip } from './services/albumExport';
+import { triggerDownload, downloadBlob, extensionForMimeType } from './services/download';
+import { DEFAULT_DATE_STAMP, type DateStampSettings } from './services/dateStamp';
+import { DEFAULT_WATERMARK, type WatermarkSettings } from './services/watermark';
+import { DEFAULT_PREPROCESS, type PreprocessSettings } from './services/preprocess';
+import type { ResultVariation } from './services/transformPipeline';
+import type { HistoryEntry } from './services/historyStore';
+import type { PrintSource } from './services/printLayout';
+import { STYLES, DEFAULT_STYLE_ID, getStyle, type StyleDefinition, type StyleIconId } from './shared/styles';
+import { subjectFocus, type CutoutSubjects, type SubjectBox, type SubjectSelection } from './shared/subjects';
+import { MAX_VARIATIONS } from './shared/limits';
+import { DEFAULT_PROMPT_SETTINGS, normalizePromptSettings, type PromptSettings } from './shared/promptSettings';
+
+const STYLE_ICONS: Record<StyleIconId, React.FC<React.SVGProps<SVGSVGElement>>> = {
+  camera: CameraIcon,
+  scissors: ScissorsIcon,
 };
 
 const App: React.FC = () => {
-  const [originalImage, setOriginalImage] = useState<{ file: File; url: string } | null>(null);
-  const [transformedImage, setTransformedImage] = useState<string | null>(null);
-  const [appState, setAppState] = useState<AppState>('idle');
-  const [errorMessage, setErrorMessage] = useState<string>('');
-  const [selectedStyle, setSelectedStyle] = useState<TransformStyle>('lofi');
+  const { items, cooldown, replaceFiles, enqueue, retry, reroll, rerollVariation, selectVariation, refine, selectVersion, setSubjectSelection, acceptLocalResult, cancel, reset } = useTransformQueue();
+  const [selectedStyle, setSelectedStyle] = useState<string>(DEFAULT_STYLE_ID);
+  const [focusedItemId, setFocusedItemId] = useState<string | null>(null);
+  const [dateStamp, setDateStamp] = useState<DateStampSettings>(DEFAULT_DATE_STAMP);
+  const [watermark, setWatermark] = usePersistentState<WatermarkSettings>('flashback.watermark', DEFAULT_WATERMARK);
+  const [preprocess, setPreprocess] = usePersistentState<PreprocessSettings>('flashback.preprocess', DEFAULT_PREPROCESS);
+  const [variations, setVariations] = useState(1);
+  const [storedPromptSettings, setPromptSettings] = usePersistentState<PromptSettings>('flashback.promptSettings', DEFAULT_PROMPT_SETTINGS);
+  const promptSettings = useMemo(() => normalizePromptSettings(storedPromptSettings), [storedPromptSettings]);
+  const [promptPresets, setPromptPresets] = usePersistentState<PromptPresets>('flashback.promptPresets', {});
+  const { entries: historyEntries, usage: historyUsage, record: recordHistory, remove: removeHistoryEntry, clear: clearHistory } = useHistory();
+  const [showHistory, setShowHistory] = useState(false);
+  // Variations already written to history; a re-rolled variation is a new object, so it gets its own entry.
+  const recordedVariationsRef = useRef(new WeakSet<ResultVariation>());
   
   const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const folderInputRef = React.useRef<HTMLInputElement>(null);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      setOriginalImage({ file, url: URL.createObjectURL(file) });
-      setTransformedImage(null);
-      setAppState('idle');
+  useEffect(() => {
+    // `webkitdirectory` is not part of React's input typings, so set it directly.
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const selectFiles = useCallback((files: File[]) => {
+    const images = files.filter(isImageFile);
+    if (images.length > 0) {
+      replaceFiles(images);
+      setFocusedItemId(null);
     }
+  }, [replaceFiles]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    selectFiles(Array.from(event.target.files ?? []));
+    event.target.value = '';
   };
 
+  const handleDrop = useCallback(async (dataTransfer: DataTransfer) => {
+    selectFiles(await collectDroppedFiles(dataTransfer));
+  }, [selectFiles]);
+
   const triggerFileSelect = () => {
     fileInputRef.current?.click();
   };
 
-  const handleTransform = useCallback(async () => {
-    if (!originalImage) return;
+  const triggerFolderSelect = () => {
+    folderInputRef.current?.click();
+  };
+
+  const handleTransform = useCallback(() => {
+    if (items.length === 0) return;
+    enqueue(selectedStyle, { dateStamp, watermark, preprocess, promptSettings, variations });
+  }, [items.length, enqueue, selectedStyle, dateStamp, watermark, preprocess, promptSettings, variations]);
+
+  useEffect(() => {
+    items.forEach(item => {
+      if (item.status !== 'done' || !item.styleId) return;
+      [...item.variations, ...item.versions.map(version => version.variation)].forEach(variation => {
+        if (recordedVariationsRef.current.has(variation)) return;
+        recordedVariationsRef.current.add(variation);
+        void recordHistory({
+          styleId: item.styleId as string,
+          promptVersion: item.promptVersion,
+          model: item.model,
+          selection: variation.selection,
+          source: item.file,
+          resultUrl: variation.url,
+          createdAt: item.completedAt ?? Date.now(),
+        });
+      });
+    });
+  }, [items, recordHistory]);
 
-    setAppState('loading');
-    setErrorMessage('');
+  const handleHistoryDownload = useCallback((entry: HistoryEntry) => {
+    const slug = getStyle(entry.styleId)?.output.fileSlug ?? entry.styleId;
+    const baseName = entry.sourceName.replace(/\.[^./]+$/, '');
+    downloadBlob(entry.result, `2000s-flashback-${baseName}-${slug}.${extensionForMimeType(entry.result.type)}`);
+  }, []);
 
+  const handleHistoryRerun = useCallback((entry: HistoryEntry, styleId: string) => {
+    replaceFiles([new File([entry.source], entry.sourceName, { type: entry.source.type })]);
+    setFocusedItemId(null);
+    setSelectedStyle(styleId);
+    setShowHistory(false);
+  }, [replaceFiles]);
+
+  const handleDownloadAll = useCallback(async () => {
     try {
-      const { base64, mimeType } = await fileToBase64(originalImage.file);
-      const transformedBase64 = await transformImage(base64, mimeType, selectedStyle);
-      
-      if (!transformedBase64) {
-          throw new Error("The AI couldn't transform the image. Please try another one.");
-      }
-
-      setTransformedImage(`data:image/png;base64,${transformedBase64}`);
-      setAppState('displaying');
+      const zip = await buildAlbumZip(items);
+      downloadBlob(zip, '2000s-flashback-album.zip');
     } catch (error) {
-      console.error('Transformation failed:', error);
-      setErrorMessage(error instanceof Error ? error.message : 'An unknown error occurred.');
-      setAppState('error');
+      console.error('Failed to build album archive:', error);
     }
-  }, [originalImage, selectedStyle]);
+  }, [items]);
 
   const handleReset = () => {
-    setOriginalImage(null);
-    setTransformedImage(null);
-    setAppState('idle');
-    setErrorMessage('');
-    if(fileInputRef.current) {
-        fileInputRef.current.value = '';
-    }
+    reset();
+    setFocusedItemId(null);
   };
 
   const MemoizedHeader = React.memo(Header);
   const MemoizedFooter = React.memo(Footer);
-  
-  const styleTitle = useMemo(() => {
-    if (selectedStyle === 'lofi') return '2000s Lofi';
-    if (selectedStyle === 'cutout') return 'Paper Cutout';
-    return 'Early 2000s';
-  }, [selectedStyle]);
+
+  const hasStarted = items.some(item => item.status !== 'idle');
+  const singleItem = items.length === 1 ? items[0] : null;
+  const focusedItem = items.find(item => item.id === focusedItemId && hasVisibleResult(item)) ?? null;
+  const resultItem = focusedItem ?? (singleItem && hasVisibleResult(singleItem) ? singleItem : null);
+  const isSingleLoading = singleItem !== null && singleItem.rerollingVariation === null && singleItem.pendingRefinement === null && (singleItem.status === 'queued' || singleItem.status === 'running');
+  const previews = useMemo(
+    () => items.map(item => ({ id: item.id, url: item.url, subjects: item.subjects, subjectSelection: item.subjectSelection })),
+    [items],
+  );
+  // The result on screen goes first so a single-photo print picks it.
+  const printSources = useMemo(() => {
+    const finished = items.filter(hasVisibleResult).map(item => ({ id: item.id, url: item.resultUrl as string, file: item.file }));
+    const currentId = resultItem?.id;
+    return [...finished.filter(source => source.id === currentId), ...finished.filter(source => source.id !== currentId)]
+      .map(({ url, file }) => ({ url, file }));
+  }, [items, resultItem?.id]);
+  const slideshowUrls = useMemo(
+    () => items.filter(item => item.status === 'done').flatMap(item => item.variations.map(variation => variation.url)),
+    [items],
+  );
+
+  const renderContent = () => {
+    if (showHistory) {
+      return (
+        <HistoryPanel
+          entries={historyEntries}
+          usage={historyUsage}
+          onDownload={handleHistoryDownload}
+          onRerun={handleHistoryRerun}
+          onDelete={id => void removeHistoryEntry(id)}
+          onClear={() => void clearHistory()}
+          onClose={() => setShowHistory(false)}
+        />
+      );
+    }
+    if (items.length === 0) {
+      return <UploadSplash onUploadClick={triggerFileSelect} onFolderClick={triggerFolderSelect} onDrop={handleDrop} />;
+    }
+    if (resultItem && resultItem.resultUrl) {
+      return (
+        <ResultDisplay
+          originalUrl={resultItem.url}
+          transformedUrl={resultItem.resultUrl}
+          onReset={handleReset}
+          onReroll={() => reroll(resultItem.id)}
+          isCached={resultItem.cached}
+          variations={resultItem.variations}
+          selectedVariation={resultItem.currentVersion === null ? resultItem.selectedVariation : -1}
+          rerollingVariation={resultItem.rerollingVariation}
+          onSelectVariation={index => selectVariation(resultItem.id, index)}
+          onRerollVariation={index => rerollVariation(resultItem.id, index)}
+          versions={resultItem.versions}
+          currentVersion={resultItem.currentVersion}
+          pendingRefinement={resultItem.pendingRefinement}
+          onRefine={(instruction, mask) => refine(resultItem.id, instruction, mask)}
+          onSelectVersion={versionId => selectVersion(resultItem.id, versionId)}
+          onCancelRefinement={() => cancel(resultItem.id)}
+          errorMessage={resultItem.error}
+          cutoutSubjects={resultItem.currentVersion === null ? resultItem.cutoutSubjects : null}
+          onReuseSeed={seed => setPromptSettings({ ...promptSettings, seed })}
+          slideshowUrls={slideshowUrls}
+          printSources={printSources}
+          onBack={focusedItem && !singleItem ? () => setFocusedItemId(null) : undefined}
+          style={getStyle(resultItem.styleId ?? '')}
+        />
+      );
+    }
+    if (hasStarted && !singleItem) {
+      return <AlbumGrid items={items} cooldown={cooldown} onSelect={setFocusedItemId} onRetry={retry} onUseLocal={acceptLocalResult} onCancel={cancel} onReset={handleReset} onDownloadAll={handleDownloadAll} />;
+    }
+    return (
+      <PreviewAndTransform
+        previews={previews}
+        onSubjectSelectionChange={setSubjectSelection}
+        onTransform={handleTransform}
+        onReset={triggerFileSelect}
+        isError={singleItem?.status === 'failed'}
+        errorMessage={singleItem?.error ?? ''}
+        onUseLocal={singleItem?.status === 'failed' && singleItem.preview ? () => acceptLocalResult(singleItem.id) : undefined}
+        selectedStyle={selectedStyle}
+        onStyleChange={setSelectedStyle}
+        dateStamp={dateStamp}
+        onDateStampChange={setDateStamp}
+        watermark={watermark}
+        onWatermarkChange={setWatermark}
+        preprocess={preprocess}
+        onPreprocessChange={setPreprocess}
+        variations={variations}
+        onVariationsChange={setVariations}
+        promptSettings={promptSettings}
+        onPromptSettingsChange={setPromptSettings}
+        promptPresets={promptPresets}
+        onPromptPresetsChange={setPromptPresets}
+      />
+    );
+  };
 
   return (
     <div className="min-h-screen text-white flex flex-col p-4 sm:p-6 lg:p-8">
       <MemoizedHeader />
       <main className="flex-grow flex flex-col items-center justify-center container mx-auto text-center">
-        {appState === 'loading' ? (
-          <Loader />
+        {isSingleLoading && singleItem && !showHistory ? (
+          <Loader stage={singleItem.stage} startedAt={singleItem.startedAt} cooldown={cooldown} onCancel={() => cancel(singleItem.id)} previewUrl={singleItem.preview?.url} />
         ) : (
           <div className="w-full max-w-5xl">
-            {!originalImage ? (
-                <UploadSplash onUploadClick={triggerFileSelect} />
-            ) : appState === 'displaying' && transformedImage ? (
-                <ResultDisplay
-                    originalUrl={originalImage.url}
-                    transformedUrl={transformedImage}
-                    onReset={handleReset}
-                    styleTitle={styleTitle}
-                />
-            ) : (
-                <PreviewAndTransform
-                    imageUrl={originalImage.url}
-                    onTransform={handleTransform}
-                    onReset={triggerFileSelect}
-                    isError={appState === 'error'}
-                    errorMessage={errorMessage}
-                    selectedStyle={selectedStyle}
-                    onStyleChange={setSelectedStyle}
-                />
+            {!showHistory && historyEntries.length > 0 && (
+              <div className="flex justify-end mb-4">
+                <button onClick={() => setShowHistory(true)} className="text-sm text-gray-400 hover:text-white transition-colors duration-300">
+                  History ({historyEntries.length})
+                </button>
+              </div>
             )}
+            {renderContent()}
             <input
               type="file"
               ref={fileInputRef}
               onChange={handleFileChange}
               className="hidden"
-              accept="image/png, image/jpeg, image/webp"
+              accept={ACCEPTED_IMAGE_TYPES}
+              multiple
+            />
+            <input
+              type="file"
+              ref={folderInputRef}
+              onChange={handleFileChange}
+              className="hidden"
+              multiple
             />
           </div>
         )}
@@ -135,73 +280,205 @@ const App: React.FC = () => {
 };
 
 // Sub-components
-const UploadSplash: React.FC<{onUploadClick: () => void}> = ({onUploadClick}) => (
-    <div className="flex flex-col items-center justify-center p-8 border-2 border-dashed border-pink-500/50 rounded-2xl bg-white/5 backdrop-blur-sm shadow-lg shadow-pink-500/10">
-        <UploadIcon className="w-16 h-16 mb-4 text-pink-400" />
-        <h2 className="text-2xl font-bold font-orbitron mb-2">Upload Your Photo</h2>
-        <p className="text-gray-400 mb-6 max-w-md">Select an image to begin the transformation into a 2000s nightlife throwback.</p>
-        <button
-            onClick={onUploadClick}
-            className="bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white font-bold py-3 px-8 rounded-full transition-all duration-300 transform hover:scale-105 shadow-lg shadow-purple-500/30"
+interface UploadSplashProps {
+    onUploadClick: () => void;
+    onFolderClick: () => void;
+    onDrop: (dataTransfer: DataTransfer) => void;
+}
+
+const UploadSplash: React.FC<UploadSplashProps> = ({ onUploadClick, onFolderClick, onDrop }) => {
+    const [isDragging, setIsDragging] = useState(false);
+
+    const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+        event.preventDefault();
+        setIsDragging(true);
+    };
+
+    const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+        event.preventDefault();
+        setIsDragging(false);
+        onDrop(event.dataTransfer);
+    };
+
+    return (
+        <div
+            onDragOver={handleDragOver}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`flex flex-col items-center justify-center p-8 border-2 border-dashed rounded-2xl bg-white/5 backdrop-blur-sm shadow-lg shadow-pink-500/10 transition-colors duration-300 ${isDragging ? 'border-pink-400 bg-pink-500/10' : 'border-pink-500/50'}`}
         >
-            Select Image
-        </button>
-    </div>
-);
+            <UploadIcon className="w-16 h-16 mb-4 text-pink-400" />
+            <h2 className="text-2xl font-bold font-orbitron mb-2">Upload Your Photos</h2>
+            <p className="text-gray-400 mb-6 max-w-md">Select or drop an image, a few photos or a whole album folder to begin the transformation into a 2000s nightlife throwback.</p>
+            <div className="flex flex-col sm:flex-row items-center gap-4">
+                <button
+                    onClick={onUploadClick}
+                    className="bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white font-bold py-3 px-8 rounded-full transition-all duration-300 transform hover:scale-105 shadow-lg shadow-purple-500/30"
+                >
+                    Select Images
+                </button>
+                <button onClick={onFolderClick} className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-3 px-6 rounded-full transition-colors duration-300">
+                    Select Folder
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// Both styles are built around people, so say so up front when none were found.
+const NoPersonWarning: React.FC<{ previews: PreviewImage[] }> = ({ previews }) => {
+    const missing = previews.filter(preview => preview.subjects !== null && preview.subjects.length === 0).length;
+    if (missing === 0) return null;
+    return (
+        <p className="w-full max-w-2xl text-sm text-yellow-200 bg-yellow-500/10 border border-yellow-500/30 rounded-lg px-4 py-3" role="status">
+            {previews.length === 1
+                ? "We couldn't spot a person in this photo."
+                : `We couldn't spot a person in ${missing} of these ${previews.length} photos.`}
+            {' '}Both styles are designed around people, so results without one may look odd.
+        </p>
+    );
+};
+
+interface PreviewImage {
+    id: string;
+    url: string;
+    // People found on the device; null while detection is still running.
+    subjects: SubjectBox[] | null;
+    subjectSelection: SubjectSelection;
+}
 
 interface PreviewProps {
-    imageUrl: string;
+    previews: PreviewImage[];
+    onSubjectSelectionChange: (id: string, selection: SubjectSelection) => void;
     onTransform: () => void;
     onReset: () => void;
     isError: boolean;
     errorMessage: string;
-    selectedStyle: TransformStyle;
-    onStyleChange: (style: TransformStyle) => void;
+    // Offered when the model failed but the local filter produced a result.
+    onUseLocal?: () => void;
+    selectedStyle: string;
+    onStyleChange: (styleId: string) => void;
+    dateStamp: DateStampSettings;
+    onDateStampChange: (settings: DateStampSettings) => void;
+    watermark: WatermarkSettings;
+    onWatermarkChange: (settings: WatermarkSettings) => void;
+    preprocess: PreprocessSettings;
+    onPreprocessChange: (settings: PreprocessSettings) => void;
+    variations: number;
+    onVariationsChange: (count: number) => void;
+    promptSettings: PromptSettings;
+    onPromptSettingsChange: (settings: PromptSettings) => void;
+    promptPresets: PromptPresets;
+    onPromptPresetsChange: (presets: PromptPresets) => void;
 }
 
-const PreviewAndTransform: React.FC<PreviewProps> = ({ imageUrl, onTransform, onReset, isError, errorMessage, selectedStyle, onStyleChange }) => (
+const PreviewAndTransform: React.FC<PreviewProps> = ({ previews, onSubjectSelectionChange, onTransform, onReset, isError, errorMessage, onUseLocal, selectedStyle, onStyleChange, dateStamp, onDateStampChange, watermark, onWatermarkChange, preprocess, onPreprocessChange, variations, onVariationsChange, promptSettings, onPromptSettingsChange, promptPresets, onPromptPresetsChange }) => (
     <div className="flex flex-col items-center gap-8">
-        <div className="relative w-full max-w-md rounded-lg overflow-hidden shadow-2xl shadow-purple-500/20">
-            <img src={imageUrl} alt="Preview" className="w-full h-auto object-cover"/>
-            <div className="absolute inset-0 bg-black/30"></div>
-        </div>
+        {previews.length === 1 ? (
+            <div className="relative w-full max-w-md rounded-lg overflow-hidden shadow-2xl shadow-purple-500/20">
+                <img src={previews[0].url} alt="Preview" className="w-full h-auto object-cover"/>
+                <div className="absolute inset-0 bg-black/30"></div>
+            </div>
+        ) : (
+            <div className="w-full max-w-2xl">
+                <p className="text-gray-400 mb-4">{previews.length} photos selected</p>
+                <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+                    {previews.map(({ url, subjects }, index) => {
+                        const focus = subjectFocus(subjects ?? []);
+                        return (
+                            <div key={url} className="aspect-square rounded-md overflow-hidden shadow-lg shadow-purple-500/20">
+                                <img
+                                    src={url}
+                                    alt={`Preview ${index + 1}`}
+                                    className="w-full h-full object-cover"
+                                    style={focus ? { objectPosition: `${focus.x * 100}% ${focus.y * 100}%` } : undefined}
+                                />
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        )}
+        <NoPersonWarning previews={previews} />
         
         <div className="w-full max-w-2xl">
             <h3 className="text-xl font-bold font-orbitron mb-4">Choose a Style</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <StyleButton
-                    icon={<CameraIcon />}
-                    title="2000s Lofi"
-                    description="Authentic digital camera look with a date stamp."
-                    isSelected={selectedStyle === 'lofi'}
-                    onClick={() => onStyleChange('lofi')}
-                />
-                <StyleButton
-                    icon={<ScissorsIcon />}
-                    title="Paper Cutout"
-                    description="A fun scrapbook style with 2000s themed objects."
-                    isSelected={selectedStyle === 'cutout'}
-                    onClick={() => onStyleChange('cutout')}
-                />
+                {STYLES.map(style => {
+                    const Icon = STYLE_ICONS[style.icon];
+                    return (
+                        <StyleButton
+                            key={style.id}
+                            icon={<Icon />}
+                            title={style.title}
+                            description={style.description}
+                            isSelected={selectedStyle === style.id}
+                            onClick={() => onStyleChange(style.id)}
+                        />
+                    );
+                })}
+            </div>
+        </div>
+
+        {getStyle(selectedStyle)?.controls.includes('subjectSelection') && (
+            <SubjectPicker
+                photos={previews.map(({ id, url, subjects, subjectSelection }) => ({ id, url, subjects, selection: subjectSelection }))}
+                onChange={onSubjectSelectionChange}
+            />
+        )}
+        {getStyle(selectedStyle)?.output.dateStamp && (
+            <DateStampPanel settings={dateStamp} onChange={onDateStampChange} />
+        )}
+        <WatermarkPanel settings={watermark} onChange={onWatermarkChange} />
+        <div className="w-full max-w-2xl flex items-center justify-between gap-4 bg-white/5 border border-white/10 rounded-lg p-4">
+            <div className="text-left">
+                <h4 className="font-bold">Variations</h4>
+                <p className="text-sm text-gray-400">Generate several takes and keep your favourite.</p>
+            </div>
+            <div className="flex gap-2" role="radiogroup" aria-label="Number of variations">
+                {Array.from({ length: MAX_VARIATIONS }, (_, index) => index + 1).map(count => (
+                    <button
+                        key={count}
+                        onClick={() => onVariationsChange(count)}
+                        role="radio"
+                        aria-checked={variations === count}
+                        className={`w-10 h-10 rounded-full font-bold border-2 transition-colors duration-300 ${variations === count ? 'bg-purple-500/20 border-purple-500' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+                    >
+                        {count}
+                    </button>
+                ))}
             </div>
         </div>
+        <AdvancedPanel
+            style={getStyle(selectedStyle)}
+            settings={promptSettings}
+            onChange={onPromptSettingsChange}
+            presets={promptPresets}
+            onPresetsChange={onPromptPresetsChange}
+        />
+        <UploadSettingsPanel settings={preprocess} onChange={onPreprocessChange} />
 
         {isError && (
              <div className="bg-red-500/20 border border-red-500 text-red-300 px-4 py-3 rounded-lg text-center">
                 <p className="font-bold">Transformation Failed</p>
                 <p className="text-sm">{errorMessage}</p>
+                {onUseLocal && (
+                    <button onClick={onUseLocal} className="mt-3 bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-2 px-4 rounded-full transition-colors duration-300">
+                        Use the local filter instead
+                    </button>
+                )}
             </div>
         )}
         <div className="flex items-center gap-4 mt-4">
             <button onClick={onReset} className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-3 px-6 rounded-full transition-colors duration-300">
-                Change Photo
+                {previews.length === 1 ? 'Change Photo' : 'Change Photos'}
             </button>
             <button
                 onClick={onTransform}
                 className="bg-gradient-to-r from-teal-400 to-blue-500 hover:from-teal-500 hover:to-blue-600 text-white font-bold py-3 px-8 rounded-full transition-all duration-300 transform hover:scale-105 shadow-lg shadow-blue-500/30 flex items-center gap-2"
             >
                 <SparklesIcon className="w-5 h-5" />
-                Transform
+                {previews.length === 1 ? 'Transform' : `Transform ${previews.length} Photos`}
             </button>
         </div>
     </div>
@@ -231,28 +508,131 @@ const StyleButton: React.FC<StyleButtonProps> = ({ icon, title, description, isS
     );
 };
 
-const ResultDisplay: React.FC<{originalUrl: string; transformedUrl: string; onReset: () => void; styleTitle: string}> = ({ originalUrl, transformedUrl, onReset, styleTitle }) => {
+interface ResultDisplayProps {
+    originalUrl: string;
+    transformedUrl: string;
+    onReset: () => void;
+    onReroll: () => void;
+    isCached: boolean;
+    variations: ResultVariation[];
+    selectedVariation: number;
+    rerollingVariation: number | null;
+    onSelectVariation: (index: number) => void;
+    onRerollVariation: (index: number) => void;
+    versions: ResultVersion[];
+    currentVersion: string | null;
+    pendingRefinement: PendingRefinement | null;
+    onRefine: (instruction: string, mask?: string) => void;
+    onSelectVersion: (id: string) => void;
+    onCancelRefinement: () => void;
+    errorMessage: string | null;
+    // Who the cutout style was asked to cut out, for the summary under the result.
+    cutoutSubjects: CutoutSubjects | null;
+    onReuseSeed: (seed: number) => void;
+    // Every finished result in the session, for the animated slideshow.
+    slideshowUrls: string[];
+    // Finished results for print layouts, the one on screen first.
+    printSources: PrintSource[];
+    onBack?: () => void;
+    style?: StyleDefinition;
+}
+
+const ResultDisplay: React.FC<ResultDisplayProps> = ({ originalUrl, transformedUrl, onReset, onReroll, isCached, variations, selectedVariation, rerollingVariation, onSelectVariation, onRerollVariation, versions, currentVersion, pendingRefinement, onRefine, onSelectVersion, onCancelRefinement, errorMessage, cutoutSubjects, onReuseSeed, slideshowUrls, printSources, onBack, style }) => {
+    // Refined versions don't record props, since an edit may have swapped them.
+    const selection = variations[selectedVariation]?.selection ?? null;
+    const isBusy = rerollingVariation !== null || pendingRefinement !== null;
+    const [isMasking, setIsMasking] = useState(false);
+    const [isPrinting, setIsPrinting] = useState(false);
+
+    const handleRegionEdit = (mask: string, instruction: string) => {
+        setIsMasking(false);
+        onRefine(instruction, mask);
+    };
+    const styleTitle = style?.title ?? 'Early 2000s';
+
     const handleDownload = () => {
-        const link = document.createElement('a');
-        link.href = transformedUrl;
-        const fileName = `2000s-flashback-${styleTitle.toLowerCase().replace(/\s+/g, '-')}.png`;
-        link.download = fileName;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        const mimeType = transformedUrl.slice(5, transformedUrl.indexOf(';'));
+        const fileName = `2000s-flashback-${style?.output.fileSlug ?? 'early-2000s'}.${extensionForMimeType(mimeType)}`;
+        triggerDownload(transformedUrl, fileName);
     };
     
     return (
         <div className="w-full">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-8 mb-8">
-                <ImageCard title="Original" imageUrl={originalUrl} />
-                <ImageCard title={styleTitle} imageUrl={transformedUrl} isTransformed />
+            <div className="mb-8">
+                {isMasking ? (
+                    <MaskEditor imageUrl={transformedUrl} onSubmit={handleRegionEdit} onCancel={() => setIsMasking(false)} />
+                ) : (
+                    <CompareView originalUrl={originalUrl} transformedUrl={transformedUrl} title={styleTitle} />
+                )}
             </div>
+            {variations.length > 1 && (
+                <VariationStrip
+                    urls={variations.map(variation => variation.url)}
+                    selected={selectedVariation}
+                    rerolling={rerollingVariation}
+                    onSelect={onSelectVariation}
+                    onReroll={onRerollVariation}
+                />
+            )}
+            {selection && (
+                <div className="flex flex-wrap items-center justify-center gap-2 -mt-4 mb-6 text-sm text-gray-400">
+                    <span>Props:</span>
+                    {selection.objects.map(object => (
+                        <span key={object.id} title={object.description} className="bg-white/5 border border-white/10 rounded-full px-3 py-1 text-xs text-gray-200">{object.label}</span>
+                    ))}
+                    <span>· Seed {selection.seed}</span>
+                    <button
+                        onClick={() => onReuseSeed(selection.seed)}
+                        title="Use this seed for the next transformation to get the same props"
+                        className="text-purple-300 hover:text-purple-200"
+                    >
+                        Reuse seed
+                    </button>
+                </div>
+            )}
+            {cutoutSubjects && (
+                <p className="text-sm text-gray-400 -mt-4 mb-6">
+                    {cutoutSubjects.count === null
+                        ? 'Cut out: whoever the model picked'
+                        : `Cut out: ${cutoutSubjects.count} ${cutoutSubjects.count === 1 ? 'person' : 'people'}`}
+                    {cutoutSubjects.grouping === 'individual' ? ', one cutout each' : ', as a single group'}
+                </p>
+            )}
+            {isCached && (
+                <p className="text-sm text-gray-500 -mt-4 mb-6">Served from cache. Hit Re-roll for a fresh take.</p>
+            )}
+            {errorMessage && (
+                <p className="text-sm text-red-300 -mt-4 mb-6">That didn't work: {errorMessage}</p>
+            )}
+            <RefinementPanel
+                versions={versions}
+                currentVersion={currentVersion}
+                pending={pendingRefinement}
+                disabled={rerollingVariation !== null}
+                onRefine={onRefine}
+                onPaintRegion={() => setIsMasking(true)}
+                onSelectVersion={onSelectVersion}
+                onCancel={onCancelRefinement}
+            />
             <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
+                {onBack && (
+                    <button onClick={onBack} className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-3 px-6 rounded-full transition-colors duration-300 w-full sm:w-auto">
+                        Back to Album
+                    </button>
+                )}
                  <button onClick={onReset} className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-3 px-6 rounded-full transition-colors duration-300 flex items-center gap-2 w-full sm:w-auto justify-center">
                     <ArrowPathIcon className="w-5 h-5"/>
                     Start Over
                 </button>
+                <button
+                    onClick={onReroll}
+                    disabled={isBusy}
+                    title="Generate a fresh take, ignoring any cached result"
+                    className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-3 px-6 rounded-full transition-colors duration-300 flex items-center gap-2 w-full sm:w-auto justify-center"
+                >
+                    <SparklesIcon className="w-5 h-5"/>
+                    Re-roll
+                </button>
                 <button 
                     onClick={handleDownload}
                     className="bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white font-bold py-3 px-8 rounded-full transition-all duration-300 transform hover:scale-105 shadow-lg shadow-purple-500/30 flex items-center gap-2 w-full sm:w-auto justify-center"
@@ -260,25 +640,28 @@ const ResultDisplay: React.FC<{originalUrl: string; transformedUrl: string; onRe
                     <ArrowDownTrayIcon className="w-5 h-5"/>
                     Download Image
                 </button>
+                <button
+                    onClick={() => setIsPrinting(current => !current)}
+                    aria-expanded={isPrinting}
+                    title="Lay results out as prints, a photo-booth strip or a contact sheet"
+                    className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-3 px-6 rounded-full transition-colors duration-300 flex items-center gap-2 w-full sm:w-auto justify-center"
+                >
+                    <PrinterIcon className="w-5 h-5"/>
+                    Print
+                </button>
             </div>
-        </div>
-    );
-};
-
-
-const ImageCard: React.FC<{title: string; imageUrl: string; isTransformed?: boolean}> = ({title, imageUrl, isTransformed = false}) => {
-    const titleClasses = useMemo(() => 
-        isTransformed
-        ? "font-orbitron text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-teal-400 to-blue-500"
-        : "font-orbitron text-2xl font-bold text-gray-400", 
-    [isTransformed]);
-    
-    return (
-        <div className="bg-white/5 p-4 rounded-xl backdrop-blur-sm border border-white/10">
-            <h3 className={titleClasses}>{title}</h3>
-            <div className="mt-4 aspect-square rounded-lg overflow-hidden">
-                <img src={imageUrl} alt={title} className="w-full h-full object-cover" />
-            </div>
+            {isPrinting && (
+                <PrintPanel
+                    sources={printSources}
+                    fileSlug={style?.output.fileSlug ?? 'early-2000s'}
+                    onClose={() => setIsPrinting(false)}
+                />
+            )}
+            {style && <SharePanel imageUrl={transformedUrl} styleId={style.id} />}
+            <AnimationExportPanel
+                sources={{ originalUrl, resultUrl: transformedUrl, slideshowUrls }}
+                fileSlug={style?.output.fileSlug ?? 'early-2000s'}
+            />
         </div>
     );
 };
@@ -0,0 +1,313 @@
+import React from 'react';
+import type { StyleDefinition } from '../shared/styles';
+import {
+    COLOR_CASTS,
+    DEFAULT_PROMPT_SETTINGS,
+    FLASH_INTENSITIES,
+    MAX_CUSTOM_OBJECT_LENGTH,
+    MAX_CUSTOM_OBJECTS,
+    MAX_EXTRA_INSTRUCTIONS_LENGTH,
+    MAX_OBJECT_COUNT,
+    MAX_YEAR,
+    MIN_OBJECT_COUNT,
+    MIN_YEAR,
+    NOISE_LEVELS,
+    normalizePromptSettings,
+    type ColorCast,
+    type FlashIntensity,
+    type NoiseLevel,
+    type PromptSettings,
+} from '../shared/promptSettings';
+import { customObjectId, getObjectPool, isCustomObjectId } from '../shared/cutoutObjects';
+import { isSeed } from '../shared/random';
+
+export type PromptPresets = Record<string, PromptSettings>;
+
+interface AdvancedPanelProps {
+    style?: StyleDefinition;
+    settings: PromptSettings;
+    onChange: (settings: PromptSettings) => void;
+    presets: PromptPresets;
+    onPresetsChange: (presets: PromptPresets) => void;
+}
+
+const FLASH_LABELS: Record<FlashIntensity, string> = {
+    soft: 'Soft',
+    direct: 'Direct',
+    harsh: 'Harsh',
+};
+
+const COLOR_CAST_LABELS: Record<ColorCast, string> = {
+    cool: 'Cool blue',
+    magenta: 'Magenta',
+    warm: 'Warm tungsten',
+    neutral: 'Neutral',
+};
+
+const NOISE_LABELS: Record<NoiseLevel, string> = {
+    none: 'None',
+    light: 'Light',
+    moderate: 'Moderate',
+    heavy: 'Heavy',
+};
+
+const YEARS = Array.from({ length: MAX_YEAR - MIN_YEAR + 1 }, (_, index) => MIN_YEAR + index);
+
+const OBJECT_COUNTS = Array.from({ length: MAX_OBJECT_COUNT - MIN_OBJECT_COUNT + 1 }, (_, index) => MIN_OBJECT_COUNT + index);
+
+const selectClasses = "bg-black/40 border border-white/20 rounded-md px-2 py-1 text-sm text-white";
+const labelClasses = "flex flex-col gap-1 text-xs text-gray-400 text-left";
+const smallButtonClasses = "bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-1 px-3 rounded-full transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const AdvancedPanel: React.FC<AdvancedPanelProps> = ({ style, settings, onChange, presets, onPresetsChange }) => {
+    const [selectedPreset, setSelectedPreset] = React.useState('');
+    const [presetName, setPresetName] = React.useState('');
+    const [newObject, setNewObject] = React.useState('');
+    const controls = new Set(style?.controls ?? []);
+
+    const update = <K extends keyof PromptSettings>(key: K, value: PromptSettings[K]) => {
+        onChange({ ...settings, [key]: value });
+    };
+
+    const loadPreset = (name: string) => {
+        setSelectedPreset(name);
+        if (presets[name]) {
+            // Presets saved by an older version may lack newer settings or carry retired ones.
+            onChange(normalizePromptSettings(presets[name]));
+            setPresetName(name);
+        }
+    };
+
+    const savePreset = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        onPresetsChange({ ...presets, [name]: settings });
+        setSelectedPreset(name);
+    };
+
+    const deletePreset = () => {
+        const { [selectedPreset]: _removed, ...rest } = presets;
+        onPresetsChange(rest);
+        setSelectedPreset('');
+    };
+
+    const objectPool = getObjectPool(settings);
+    const pinned = new Set(settings.pinnedObjects);
+    const excluded = new Set(settings.excludedObjects);
+    const without = (ids: string[], id: string) => ids.filter(item => item !== id);
+
+    const togglePinned = (id: string) => onChange({
+        ...settings,
+        pinnedObjects: pinned.has(id) ? without(settings.pinnedObjects, id) : [...settings.pinnedObjects, id],
+        excludedObjects: without(settings.excludedObjects, id),
+    });
+
+    const toggleExcluded = (id: string) => onChange({
+        ...settings,
+        excludedObjects: excluded.has(id) ? without(settings.excludedObjects, id) : [...settings.excludedObjects, id],
+        pinnedObjects: without(settings.pinnedObjects, id),
+    });
+
+    const addObject = () => {
+        const object = newObject.trim().replace(/\s+/g, ' ');
+        if (!object || settings.customObjects.includes(object) || settings.customObjects.length >= MAX_CUSTOM_OBJECTS) return;
+        update('customObjects', [...settings.customObjects, object]);
+        setNewObject('');
+    };
+
+    const removeObject = (description: string) => {
+        const id = customObjectId(description);
+        onChange({
+            ...settings,
+            customObjects: settings.customObjects.filter(item => item !== description),
+            pinnedObjects: without(settings.pinnedObjects, id),
+            excludedObjects: without(settings.excludedObjects, id),
+        });
+    };
+
+    const resetObjects = () => onChange({
+        ...settings,
+        customObjects: DEFAULT_PROMPT_SETTINGS.customObjects,
+        pinnedObjects: DEFAULT_PROMPT_SETTINGS.pinnedObjects,
+        excludedObjects: DEFAULT_PROMPT_SETTINGS.excludedObjects,
+        objectCount: DEFAULT_PROMPT_SETTINGS.objectCount,
+        seed: DEFAULT_PROMPT_SETTINGS.seed,
+    });
+
+    return (
+        <details className="w-full max-w-2xl bg-white/5 border border-white/10 rounded-lg p-4 text-left">
+            <summary className="font-bold cursor-pointer">Advanced</summary>
+            <div className="flex flex-col gap-4 mt-4">
+                <div className="flex flex-wrap items-end gap-2">
+                    <label className={labelClasses}>
+                        Preset
+                        <select className={selectClasses} value={selectedPreset} onChange={event => loadPreset(event.target.value)}>
+                            <option value="">Choose a preset...</option>
+                            {Object.keys(presets).sort().map(name => (
+                                <option key={name} value={name}>{name}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <button onClick={deletePreset} disabled={!presets[selectedPreset]} className={smallButtonClasses}>Delete</button>
+                    <input
+                        type="text"
+                        value={presetName}
+                        onChange={event => setPresetName(event.target.value)}
+                        placeholder="Preset name"
+                        maxLength={40}
+                        className="bg-black/40 border border-white/20 rounded-md px-2 py-1 text-sm text-white flex-grow min-w-[8rem]"
+                    />
+                    <button onClick={savePreset} disabled={!presetName.trim()} className={smallButtonClasses}>Save</button>
+                    <button onClick={() => onChange(DEFAULT_PROMPT_SETTINGS)} className={smallButtonClasses}>Reset</button>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    {controls.has('flash') && (
+                        <label className={labelClasses}>
+                            Flash intensity
+                            <select className={selectClasses} value={settings.flash} onChange={event => update('flash', event.target.value as FlashIntensity)}>
+                                {FLASH_INTENSITIES.map(value => <option key={value} value={value}>{FLASH_LABELS[value]}</option>)}
+                            </select>
+                        </label>
+                    )}
+                    {controls.has('colorCast') && (
+                        <label className={labelClasses}>
+                            Colour cast
+                            <select className={selectClasses} value={settings.colorCast} onChange={event => update('colorCast', event.target.value as ColorCast)}>
+                                {COLOR_CASTS.map(value => <option key={value} value={value}>{COLOR_CAST_LABELS[value]}</option>)}
+                            </select>
+                        </label>
+                    )}
+                    {controls.has('noise') && (
+                        <label className={labelClasses}>
+                            Noise
+                            <select className={selectClasses} value={settings.noise} onChange={event => update('noise', event.target.value as NoiseLevel)}>
+                                {NOISE_LEVELS.map(value => <option key={value} value={value}>{NOISE_LABELS[value]}</option>)}
+                            </select>
+                        </label>
+                    )}
+                    {controls.has('years') && (
+                        <>
+                            <label className={labelClasses}>
+                                From year
+                                <select className={selectClasses} value={settings.yearFrom} onChange={event => {
+                                    const yearFrom = Number(event.target.value);
+                                    onChange({ ...settings, yearFrom, yearTo: Math.max(yearFrom, settings.yearTo) });
+                                }}>
+                                    {YEARS.map(year => <option key={year} value={year}>{year}</option>)}
+                                </select>
+                            </label>
+                            <label className={labelClasses}>
+                                To year
+                                <select className={selectClasses} value={settings.yearTo} onChange={event => {
+                                    const yearTo = Number(event.target.value);
+                                    onChange({ ...settings, yearTo, yearFrom: Math.min(yearTo, settings.yearFrom) });
+                                }}>
+                                    {YEARS.map(year => <option key={year} value={year}>{year}</option>)}
+                                </select>
+                            </label>
+                        </>
+                    )}
+                    {controls.has('vignette') && (
+                        <label className="flex items-center gap-2 text-sm text-gray-300 self-end">
+                            <input type="checkbox" checked={settings.vignette} onChange={event => update('vignette', event.target.checked)} className="accent-purple-500" />
+                            Vignette
+                        </label>
+                    )}
+                </div>
+
+                {controls.has('cutoutObjects') && (
+                    <div className="flex flex-col gap-2">
+                        <div className="flex flex-wrap items-end justify-between gap-3">
+                            <label className={labelClasses}>
+                                Props per collage
+                                <select className={selectClasses} value={settings.objectCount} onChange={event => update('objectCount', Number(event.target.value))}>
+                                    {OBJECT_COUNTS.map(count => <option key={count} value={count}>{count}</option>)}
+                                </select>
+                            </label>
+                            <label className={labelClasses}>
+                                Seed
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={settings.seed ?? ''}
+                                    onChange={event => {
+                                        const seed = event.target.value === '' ? null : Number(event.target.value);
+                                        if (seed === null || isSeed(seed)) update('seed', seed);
+                                    }}
+                                    placeholder="Random"
+                                    className="bg-black/40 border border-white/20 rounded-md px-2 py-1 text-sm text-white w-36"
+                                />
+                            </label>
+                            <button onClick={resetObjects} className="text-xs text-purple-300 hover:text-purple-200">Reset props</button>
+                        </div>
+                        <p className="text-xs text-gray-400">Pin props to always include them, or exclude ones you never want.</p>
+                        <ul className="flex flex-wrap gap-2">
+                            {objectPool.map(object => {
+                                const isPinned = pinned.has(object.id);
+                                const isExcluded = excluded.has(object.id);
+                                return (
+                                    <li
+                                        key={object.id}
+                                        title={object.description}
+                                        className={`flex items-center gap-1 rounded-full pl-3 pr-1 py-1 text-xs border ${isPinned ? 'bg-purple-500/20 border-purple-500 text-white' : isExcluded ? 'bg-black/20 border-white/10 text-gray-500 line-through' : 'bg-black/40 border-white/20 text-gray-200'}`}
+                                    >
+                                        {object.label}
+                                        <button
+                                            onClick={() => togglePinned(object.id)}
+                                            aria-pressed={isPinned}
+                                            aria-label={`${isPinned ? 'Unpin' : 'Pin'} ${object.label}`}
+                                            className={`w-5 h-5 rounded-full hover:bg-white/20 ${isPinned ? 'text-purple-300' : ''}`}
+                                        >
+                                            ★
+                                        </button>
+                                        <button
+                                            onClick={() => toggleExcluded(object.id)}
+                                            disabled={!isExcluded && excluded.size >= objectPool.length - 1}
+                                            aria-pressed={isExcluded}
+                                            aria-label={`${isExcluded ? 'Include' : 'Exclude'} ${object.label}`}
+                                            className="w-5 h-5 rounded-full hover:bg-white/20 disabled:opacity-40"
+                                        >
+                                            ⊘
+                                        </button>
+                                        {isCustomObjectId(object.id) && (
+                                            <button onClick={() => removeObject(object.description)} aria-label={`Remove ${object.label}`} className="w-5 h-5 rounded-full hover:bg-white/20">
+                                                ×
+                                            </button>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={newObject}
+                                onChange={event => setNewObject(event.target.value)}
+                                onKeyDown={event => {
+                                    if (event.key === 'Enter') addObject();
+                                }}
+                                placeholder="Add a prop, e.g. A lava lamp"
+                                maxLength={MAX_CUSTOM_OBJECT_LENGTH}
+                                className="bg-black/40 border border-white/20 rounded-md px-2 py-1 text-sm text-white flex-grow"
+                            />
+                            <button onClick={addObject} disabled={!newObject.trim() || settings.customObjects.length >= MAX_CUSTOM_OBJECTS} className={smallButtonClasses}>Add</button>
+                        </div>
+                    </div>
+                )}
+
+                <label className={labelClasses}>
+                    Extra instructions ({settings.extraInstructions.length}/{MAX_EXTRA_INSTRUCTIONS_LENGTH})
+                    <textarea
+                        value={settings.extraInstructions}
+                        onChange={event => update('extraInstructions', event.target.value)}
+                        maxLength={MAX_EXTRA_INSTRUCTIONS_LENGTH}
+                        rows={2}
+                        placeholder="e.g. Make it look like it was shot in a karaoke bar"
+                        className="bg-black/40 border border-white/20 rounded-md px-2 py-1 text-sm text-white"
+                    />
+                </label>
+            </div>
+        </details>
+    );
+};
@@ -0,0 +1,150 @@
+import React from 'react';
+import type { AlbumItem, Cooldown, ItemStatus } from '../hooks/useTransformQueue';
+import { getStyle } from '../shared/styles';
+import { subjectFocus } from '../shared/subjects';
+import { TRANSFORM_STAGES, getStageIndex } from '../shared/progress';
+import { ImageCard } from './ImageCard';
+import { CooldownNotice } from './CooldownNotice';
+import { ArrowPathIcon, ArrowDownTrayIcon } from './icons';
+
+const statusLabels: Record<ItemStatus, string> = {
+    idle: 'Ready',
+    queued: 'Queued',
+    running: 'Transforming...',
+    done: 'Done',
+    failed: 'Failed',
+};
+
+const statusClasses: Record<ItemStatus, string> = {
+    idle: 'bg-gray-700 text-gray-200',
+    queued: 'bg-gray-700 text-gray-200',
+    running: 'bg-purple-600 text-white animate-pulse',
+    done: 'bg-teal-500 text-black',
+    failed: 'bg-red-600 text-white',
+};
+
+interface AlbumGridProps {
+    items: AlbumItem[];
+    cooldown: Cooldown | null;
+    onSelect: (id: string) => void;
+    onRetry: (id: string) => void;
+    onUseLocal: (id: string) => void;
+    onCancel: (id: string) => void;
+    onReset: () => void;
+    onDownloadAll: () => Promise<void>;
+}
+
+export const AlbumGrid: React.FC<AlbumGridProps> = ({ items, cooldown, onSelect, onRetry, onUseLocal, onCancel, onReset, onDownloadAll }) => {
+    const [isZipping, setIsZipping] = React.useState(false);
+    const doneCount = items.filter(item => item.status === 'done').length;
+    const failedCount = items.filter(item => item.status === 'failed').length;
+
+    const handleDownloadAll = async () => {
+        setIsZipping(true);
+        try {
+            await onDownloadAll();
+        } finally {
+            setIsZipping(false);
+        }
+    };
+
+    return (
+        <div className="w-full">
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mb-6">
+                <p className="text-gray-400">
+                    {doneCount} of {items.length} transformed{failedCount > 0 && `, ${failedCount} failed`}
+                </p>
+                <div className="flex items-center gap-4">
+                    <button onClick={onReset} className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-6 rounded-full transition-colors duration-300 flex items-center gap-2">
+                        <ArrowPathIcon className="w-5 h-5"/>
+                        Start Over
+                    </button>
+                    <button
+                        onClick={handleDownloadAll}
+                        disabled={doneCount === 0 || isZipping}
+                        className="bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white font-bold py-2 px-6 rounded-full transition-all duration-300 shadow-lg shadow-purple-500/30 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <ArrowDownTrayIcon className="w-5 h-5"/>
+                        {isZipping ? 'Zipping...' : 'Download All'}
+                    </button>
+                </div>
+            </div>
+            {cooldown && (
+                <div className="mb-6">
+                    <CooldownNotice cooldown={cooldown} />
+                </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {items.map(item => (
+                    <AlbumTile key={item.id} item={item} onSelect={onSelect} onRetry={onRetry} onUseLocal={onUseLocal} onCancel={onCancel} />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+interface AlbumTileProps {
+    item: AlbumItem;
+    onSelect: (id: string) => void;
+    onRetry: (id: string) => void;
+    onUseLocal: (id: string) => void;
+    onCancel: (id: string) => void;
+}
+
+const AlbumTile: React.FC<AlbumTileProps> = ({ item, onSelect, onRetry, onUseLocal, onCancel }) => {
+    const isDone = item.status === 'done' && item.resultUrl;
+    // While the model runs, show the local filter's take if there is one.
+    const previewUrl = item.status === 'running' ? item.preview?.url : null;
+    const style = getStyle(item.styleId ?? '');
+    const title = isDone ? (style?.title ?? 'Early 2000s') : item.file.name;
+    // Results that rearrange the photo (like the cutout collage) no longer match the original's boxes.
+    const showsOriginalFraming = !item.resultUrl || (style?.output.keepsFraming ?? false);
+    const focus = showsOriginalFraming ? subjectFocus(item.subjects ?? []) : null;
+    const runningStep = item.stage ? Math.min(getStageIndex(item.stage) + 1, TRANSFORM_STAGES.length - 1) : 0;
+    const isCancelled = item.status === 'idle' && item.styleId !== null;
+    const statusLabel = item.status === 'running'
+        ? TRANSFORM_STAGES[runningStep].label
+        : isCancelled ? 'Cancelled' : statusLabels[item.status];
+
+    return (
+        <div
+            onClick={isDone ? () => onSelect(item.id) : undefined}
+            className={`text-left ${isDone ? 'cursor-pointer transition-transform duration-300 hover:scale-[1.02]' : ''}`}
+        >
+            <ImageCard title={title} imageUrl={item.resultUrl ?? previewUrl ?? item.url} isTransformed={Boolean(isDone)} focus={focus}>
+                <span className={`absolute top-2 left-2 text-xs font-bold px-2 py-1 rounded-full ${statusClasses[item.status]}`}>
+                    {statusLabel}
+                </span>
+                {(item.status === 'queued' || item.status === 'running') && (
+                    <button
+                        onClick={() => onCancel(item.id)}
+                        className="absolute top-2 right-2 bg-black/60 hover:bg-black/80 text-white text-xs font-semibold py-1 px-3 rounded-full transition-colors duration-300"
+                    >
+                        Cancel
+                    </button>
+                )}
+                {(item.status === 'failed' || isCancelled) && (
+                    <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center gap-3 p-4 text-center">
+                        {item.error && <p className="text-sm text-red-300">{item.error}</p>}
+                        <button
+                            onClick={() => onRetry(item.id)}
+                            className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-full transition-colors duration-300 flex items-center gap-2"
+                        >
+                            <ArrowPathIcon className="w-4 h-4"/>
+                            Retry
+                        </button>
+                        {item.status === 'failed' && item.preview && (
+                            <button
+                                onClick={() => onUseLocal(item.id)}
+                                title="Use the quick in-browser approximation instead"
+                                className="text-sm text-purple-300 hover:text-purple-200"
+                            >
+                                Use local filter
+                            </button>
+                        )}
+                    </div>
+                )}
+            </ImageCard>
+        </div>
+    );
+};
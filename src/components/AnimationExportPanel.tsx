@@ -0,0 +1,107 @@
+import React from 'react';
+import { ANIMATION_SIZES, DEFAULT_ANIMATION_OPTIONS, HOLD_FRAMES, exportAnimation, isWebmSupported, type AnimationFormat, type AnimationKind, type AnimationOptions, type AnimationSources } from '../services/animationExport';
+import type { DitherMode } from '../services/dither';
+import { downloadBlob } from '../services/download';
+
+interface AnimationExportPanelProps {
+    sources: AnimationSources;
+    fileSlug: string;
+}
+
+const KIND_LABELS: Record<AnimationKind, string> = {
+    wipe: 'Before → after wipe',
+    flash: 'Flash pop',
+    slideshow: 'Slideshow',
+};
+
+const DITHER_LABELS: Record<DitherMode, string> = {
+    ordered: 'Ordered (crosshatch)',
+    diffusion: 'Diffusion (grainy)',
+};
+
+const inputClasses = "bg-black/40 border border-white/20 rounded-md px-2 py-1 text-sm text-white";
+const labelClasses = "flex flex-col gap-1 text-xs text-gray-400 text-left";
+
+export const AnimationExportPanel: React.FC<AnimationExportPanelProps> = ({ sources, fileSlug }) => {
+    const [options, setOptions] = React.useState<AnimationOptions>(DEFAULT_ANIMATION_OPTIONS);
+    const [progress, setProgress] = React.useState<number | null>(null);
+    const [error, setError] = React.useState<string | null>(null);
+    const webmSupported = React.useMemo(isWebmSupported, []);
+    const canSlideshow = sources.slideshowUrls.length > 1;
+
+    const update = <K extends keyof AnimationOptions>(key: K, value: AnimationOptions[K]) => {
+        setOptions(current => ({ ...current, [key]: value }));
+    };
+
+    const kind = options.kind === 'slideshow' && !canSlideshow ? 'wipe' : options.kind;
+
+    const handleExport = async () => {
+        setError(null);
+        setProgress(0);
+        try {
+            const blob = await exportAnimation(sources, { ...options, kind }, setProgress);
+            downloadBlob(blob, `2000s-flashback-${fileSlug}-${kind}.${options.format}`);
+        } catch (exportError) {
+            setError(exportError instanceof Error ? exportError.message : 'Could not create the animation.');
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    return (
+        <details className="w-full max-w-2xl mx-auto mt-4 bg-white/5 border border-white/10 rounded-lg p-4 text-left">
+            <summary className="font-bold cursor-pointer">Animated Export</summary>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mt-4">
+                <label className={labelClasses}>
+                    Animation
+                    <select className={inputClasses} value={kind} onChange={event => update('kind', event.target.value as AnimationKind)}>
+                        {(Object.keys(KIND_LABELS) as AnimationKind[]).map(option => (
+                            <option key={option} value={option} disabled={option === 'slideshow' && !canSlideshow}>{KIND_LABELS[option]}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className={labelClasses}>
+                    Format
+                    <select className={inputClasses} value={options.format} onChange={event => update('format', event.target.value as AnimationFormat)}>
+                        <option value="gif">GIF</option>
+                        <option value="webm" disabled={!webmSupported}>WebM video</option>
+                    </select>
+                </label>
+                <label className={labelClasses}>
+                    Size
+                    <select className={inputClasses} value={options.size} onChange={event => update('size', Number(event.target.value))}>
+                        {ANIMATION_SIZES.map(size => (
+                            <option key={size} value={size}>{size}px</option>
+                        ))}
+                    </select>
+                </label>
+                <label className={labelClasses}>
+                    Frame delay ({options.frameDelayMs} ms)
+                    <input type="range" min={40} max={250} step={10} value={options.frameDelayMs} onChange={event => update('frameDelayMs', Number(event.target.value))} className="accent-purple-500" />
+                </label>
+                <label className={labelClasses}>
+                    Dithering
+                    <select className={inputClasses} value={options.dither} onChange={event => update('dither', event.target.value as DitherMode)}>
+                        {(Object.keys(DITHER_LABELS) as DitherMode[]).map(option => (
+                            <option key={option} value={option}>{DITHER_LABELS[option]}</option>
+                        ))}
+                    </select>
+                </label>
+                <div className="flex items-end">
+                    <button
+                        onClick={handleExport}
+                        disabled={progress !== null}
+                        className="w-full bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-2 px-4 rounded-full transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {progress === null ? 'Export' : progress < 1 ? `Rendering ${Math.round(progress * 100)}%` : options.format === 'webm' ? 'Recording…' : 'Encoding…'}
+                    </button>
+                </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-3">
+                Frames use the 216-colour web-safe palette. Still frames are held {HOLD_FRAMES}× the frame delay.
+                {!canSlideshow && ' Slideshows need at least two results.'}
+            </p>
+            {error && <p className="text-sm text-red-300 mt-2">{error}</p>}
+        </details>
+    );
+};
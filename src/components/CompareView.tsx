@@ -0,0 +1,293 @@
+import React from 'react';
+
+interface CompareViewProps {
+    originalUrl: string;
+    transformedUrl: string;
+    title: string;
+}
+
+interface ViewState {
+    zoom: number;
+    panX: number;
+    panY: number;
+}
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 1.25;
+const PAN_STEP = 40;
+const SPLIT_STEP = 5;
+const INITIAL_VIEW: ViewState = { zoom: 1, panX: 0, panY: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Keep the zoomed image covering the viewport: with a centred transform origin
+// it can travel at most half of the overflow in each direction.
+const clampView = (view: ViewState, width: number, height: number): ViewState => {
+    const zoom = clamp(view.zoom, MIN_ZOOM, MAX_ZOOM);
+    const maxX = ((zoom - 1) * width) / 2;
+    const maxY = ((zoom - 1) * height) / 2;
+    return { zoom, panX: clamp(view.panX, -maxX, maxX), panY: clamp(view.panY, -maxY, maxY) };
+};
+
+// Zooms so the point under `focus` (relative to the viewport centre) stays put.
+const zoomAround = (view: ViewState, nextZoom: number, focus: Point): ViewState => {
+    const zoom = clamp(nextZoom, MIN_ZOOM, MAX_ZOOM);
+    const ratio = zoom / view.zoom;
+    return {
+        zoom,
+        panX: focus.x - (focus.x - view.panX) * ratio,
+        panY: focus.y - (focus.y - view.panY) * ratio,
+    };
+};
+
+// Before/after inspector: both images share one pan/zoom transform, the
+// transformed one is clipped at the split, and the box takes the result's real
+// aspect ratio so nothing gets cropped.
+export const CompareView: React.FC<CompareViewProps> = ({ originalUrl, transformedUrl, title }) => {
+    const viewportRef = React.useRef<HTMLDivElement>(null);
+    const pointersRef = React.useRef(new Map<number, Point>());
+    const splitDragRef = React.useRef<number | null>(null);
+    const [split, setSplit] = React.useState(50);
+    const [view, setView] = React.useState<ViewState>(INITIAL_VIEW);
+    const [aspectRatio, setAspectRatio] = React.useState(1);
+    const [showOriginal, setShowOriginal] = React.useState(false);
+
+    const updateView = React.useCallback((next: (current: ViewState) => ViewState) => {
+        setView(current => {
+            const rect = viewportRef.current?.getBoundingClientRect();
+            return rect ? clampView(next(current), rect.width, rect.height) : current;
+        });
+    }, []);
+
+    const toCentreOffset = React.useCallback((clientX: number, clientY: number): Point => {
+        const rect = viewportRef.current?.getBoundingClientRect();
+        if (!rect) return { x: 0, y: 0 };
+        return { x: clientX - rect.left - rect.width / 2, y: clientY - rect.top - rect.height / 2 };
+    }, []);
+
+    const moveSplitTo = (clientX: number) => {
+        const rect = viewportRef.current?.getBoundingClientRect();
+        if (rect && rect.width > 0) {
+            setSplit(clamp(((clientX - rect.left) / rect.width) * 100, 0, 100));
+        }
+    };
+
+    // React registers wheel listeners as passive, so attach our own to be able
+    // to stop the page from scrolling while zooming.
+    React.useEffect(() => {
+        const viewport = viewportRef.current;
+        if (!viewport) return;
+        const handleWheel = (event: WheelEvent) => {
+            event.preventDefault();
+            const focus = toCentreOffset(event.clientX, event.clientY);
+            const factor = event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+            updateView(current => zoomAround(current, current.zoom * factor, focus));
+        };
+        viewport.addEventListener('wheel', handleWheel, { passive: false });
+        return () => viewport.removeEventListener('wheel', handleWheel);
+    }, [toCentreOffset, updateView]);
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+        event.currentTarget.setPointerCapture(event.pointerId);
+        pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+        // At 100% a single drag anywhere moves the split, which is the natural gesture on touch screens.
+        if (pointersRef.current.size === 1 && view.zoom === 1) {
+            splitDragRef.current = event.pointerId;
+            moveSplitTo(event.clientX);
+        } else {
+            splitDragRef.current = null;
+        }
+    };
+
+    const handleSplitPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+        event.stopPropagation();
+        viewportRef.current?.setPointerCapture(event.pointerId);
+        pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+        splitDragRef.current = event.pointerId;
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+        const pointers = pointersRef.current;
+        const previous = pointers.get(event.pointerId);
+        if (!previous) return;
+        const current = { x: event.clientX, y: event.clientY };
+
+        if (splitDragRef.current === event.pointerId) {
+            pointers.set(event.pointerId, current);
+            moveSplitTo(event.clientX);
+            return;
+        }
+
+        if (pointers.size === 2) {
+            // Pinch: scale by the change in finger distance around their midpoint.
+            const [other] = [...pointers.entries()].filter(([id]) => id !== event.pointerId).map(([, point]) => point);
+            const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+            const after = Math.hypot(current.x - other.x, current.y - other.y);
+            const focus = toCentreOffset((current.x + other.x) / 2, (current.y + other.y) / 2);
+            if (before > 0) {
+                updateView(view => zoomAround(view, view.zoom * (after / before), focus));
+            }
+        } else if (pointers.size === 1) {
+            updateView(view => ({ ...view, panX: view.panX + current.x - previous.x, panY: view.panY + current.y - previous.y }));
+        }
+        pointers.set(event.pointerId, current);
+    };
+
+    const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+        pointersRef.current.delete(event.pointerId);
+        if (splitDragRef.current === event.pointerId) {
+            splitDragRef.current = null;
+        }
+    };
+
+    const handleViewportKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+        const pan = (dx: number, dy: number) => updateView(view => ({ ...view, panX: view.panX + dx, panY: view.panY + dy }));
+        switch (event.key) {
+            case '+':
+            case '=':
+                updateView(view => zoomAround(view, view.zoom * ZOOM_STEP, { x: 0, y: 0 }));
+                break;
+            case '-':
+                updateView(view => zoomAround(view, view.zoom / ZOOM_STEP, { x: 0, y: 0 }));
+                break;
+            case '0':
+                setView(INITIAL_VIEW);
+                break;
+            case 'ArrowLeft':
+                pan(PAN_STEP, 0);
+                break;
+            case 'ArrowRight':
+                pan(-PAN_STEP, 0);
+                break;
+            case 'ArrowUp':
+                pan(0, PAN_STEP);
+                break;
+            case 'ArrowDown':
+                pan(0, -PAN_STEP);
+                break;
+            default:
+                return;
+        }
+        event.preventDefault();
+    };
+
+    const handleSplitKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+        const step = event.shiftKey ? 1 : SPLIT_STEP;
+        switch (event.key) {
+            case 'ArrowLeft':
+            case 'ArrowDown':
+                setSplit(value => clamp(value - step, 0, 100));
+                break;
+            case 'ArrowRight':
+            case 'ArrowUp':
+                setSplit(value => clamp(value + step, 0, 100));
+                break;
+            case 'Home':
+                setSplit(0);
+                break;
+            case 'End':
+                setSplit(100);
+                break;
+            default:
+                return;
+        }
+        event.preventDefault();
+        event.stopPropagation();
+    };
+
+    const handleHoldKey = (pressed: boolean) => (event: React.KeyboardEvent<HTMLButtonElement>) => {
+        if (event.key === ' ' || event.key === 'Enter') {
+            event.preventDefault();
+            setShowOriginal(pressed);
+        }
+    };
+
+    const imageStyle: React.CSSProperties = {
+        transform: `translate(${view.panX}px, ${view.panY}px) scale(${view.zoom})`,
+    };
+    const clipPath = showOriginal ? 'inset(0 0 0 100%)' : `inset(0 0 0 ${split}%)`;
+    const zoomButtonClasses = "w-9 h-9 rounded-full bg-gray-700 hover:bg-gray-600 font-bold disabled:opacity-40 disabled:cursor-not-allowed";
+
+    return (
+        <div className="bg-white/5 p-4 rounded-xl backdrop-blur-sm border border-white/10">
+            <div className="flex items-center justify-between mb-4 gap-4">
+                <h3 className="font-orbitron text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-teal-400 to-blue-500 text-left">{title}</h3>
+                <div className="flex items-center gap-2 text-sm">
+                    <button onClick={() => updateView(view => zoomAround(view, view.zoom / ZOOM_STEP, { x: 0, y: 0 }))} disabled={view.zoom <= MIN_ZOOM} className={zoomButtonClasses} aria-label="Zoom out">−</button>
+                    <button onClick={() => setView(INITIAL_VIEW)} className="w-14 text-gray-300 hover:text-white tabular-nums" aria-label="Reset zoom">{Math.round(view.zoom * 100)}%</button>
+                    <button onClick={() => updateView(view => zoomAround(view, view.zoom * ZOOM_STEP, { x: 0, y: 0 }))} disabled={view.zoom >= MAX_ZOOM} className={zoomButtonClasses} aria-label="Zoom in">+</button>
+                </div>
+            </div>
+            <div
+                ref={viewportRef}
+                tabIndex={0}
+                role="group"
+                aria-label="Before and after comparison. Use plus and minus to zoom, arrow keys to pan and 0 to reset."
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onKeyDown={handleViewportKeyDown}
+                className={`relative mx-auto rounded-lg overflow-hidden bg-black/40 select-none touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500 ${view.zoom > 1 ? 'cursor-grab active:cursor-grabbing' : 'cursor-ew-resize'}`}
+                style={{ aspectRatio: String(aspectRatio), width: `min(100%, calc(70vh * ${aspectRatio}))` }}
+            >
+                <img src={originalUrl} alt="Original" draggable={false} className="absolute inset-0 w-full h-full object-contain" style={imageStyle} />
+                <div className="absolute inset-0" style={{ clipPath }}>
+                    <img
+                        src={transformedUrl}
+                        alt={title}
+                        draggable={false}
+                        onLoad={event => {
+                            const { naturalWidth, naturalHeight } = event.currentTarget;
+                            if (naturalWidth > 0 && naturalHeight > 0) setAspectRatio(naturalWidth / naturalHeight);
+                        }}
+                        className="absolute inset-0 w-full h-full object-contain"
+                        style={imageStyle}
+                    />
+                </div>
+                <span className="absolute top-2 left-2 text-xs bg-black/60 rounded px-2 py-1 pointer-events-none">Original</span>
+                {!showOriginal && (
+                    <span className="absolute top-2 right-2 text-xs bg-black/60 rounded px-2 py-1 pointer-events-none">{title}</span>
+                )}
+                {!showOriginal && (
+                    <div
+                        role="slider"
+                        tabIndex={0}
+                        aria-label="Comparison split"
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-valuenow={Math.round(split)}
+                        onPointerDown={handleSplitPointerDown}
+                        onKeyDown={handleSplitKeyDown}
+                        className="absolute top-0 bottom-0 w-8 -ml-4 flex justify-center cursor-ew-resize focus:outline-none group"
+                        style={{ left: `${split}%` }}
+                    >
+                        <div className="w-0.5 h-full bg-white/80 shadow"></div>
+                        <div className="absolute top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white text-black text-xs font-bold flex items-center justify-center shadow-lg group-focus-visible:ring-2 group-focus-visible:ring-purple-500">↔</div>
+                    </div>
+                )}
+            </div>
+            <div className="flex justify-center mt-4">
+                <button
+                    onPointerDown={() => setShowOriginal(true)}
+                    onPointerUp={() => setShowOriginal(false)}
+                    onPointerLeave={() => setShowOriginal(false)}
+                    onPointerCancel={() => setShowOriginal(false)}
+                    onKeyDown={handleHoldKey(true)}
+                    onKeyUp={handleHoldKey(false)}
+                    onBlur={() => setShowOriginal(false)}
+                    aria-pressed={showOriginal}
+                    className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-6 rounded-full transition-colors duration-300 select-none touch-none"
+                >
+                    Hold to see original
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import type { Cooldown } from '../hooks/useTransformQueue';
+import { formatDuration } from '../services/time';
+
+export const CooldownNotice: React.FC<{cooldown: Cooldown}> = ({ cooldown }) => {
+    const [now, setNow] = React.useState(() => Date.now());
+
+    React.useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    return (
+        <div className="bg-yellow-500/10 border border-yellow-500/60 text-yellow-200 px-4 py-3 rounded-lg text-center" role="status">
+            <p className="font-bold">{cooldown.message}</p>
+            <p className="text-sm mt-1">
+                Trying again automatically in <span className="font-mono">{formatDuration(cooldown.until - now)}</span>
+            </p>
+        </div>
+    );
+};
@@ -0,0 +1,100 @@
+import React from 'react';
+import { CORNERS, type Corner } from '../shared/styles';
+import {
+    DATE_STAMP_COLORS,
+    DATE_STAMP_FORMATS,
+    formatDateStamp,
+    parseLocalDateTime,
+    type DateStampColor,
+    type DateStampFont,
+    type DateStampFormat,
+    type DateStampSettings,
+} from '../services/dateStamp';
+
+interface DateStampPanelProps {
+    settings: DateStampSettings;
+    onChange: (settings: DateStampSettings) => void;
+}
+
+const selectClasses = "bg-black/40 border border-white/20 rounded-md px-2 py-1 text-sm text-white";
+const labelClasses = "flex flex-col gap-1 text-xs text-gray-400 text-left";
+
+export const DateStampPanel: React.FC<DateStampPanelProps> = ({ settings, onChange }) => {
+    const update = <K extends keyof DateStampSettings>(key: K, value: DateStampSettings[K]) => {
+        onChange({ ...settings, [key]: value });
+    };
+
+    const previewDate = parseLocalDateTime(settings.fixedDate) ?? new Date();
+
+    return (
+        <div className="w-full max-w-2xl bg-white/5 border border-white/10 rounded-lg p-4">
+            <div className="flex items-center justify-between gap-4">
+                <label className="flex items-center gap-2 font-bold cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.enabled}
+                        onChange={event => update('enabled', event.target.checked)}
+                        className="accent-purple-500"
+                    />
+                    Date Stamp
+                </label>
+                {settings.enabled && (
+                    <span className="font-mono text-lg" style={{ color: DATE_STAMP_COLORS[settings.color], textShadow: `0 0 6px ${DATE_STAMP_COLORS[settings.color]}` }}>
+                        {settings.source === 'exif' ? 'EXIF date' : formatDateStamp(previewDate, settings.format)}
+                    </span>
+                )}
+            </div>
+
+            {settings.enabled && (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mt-4">
+                    <label className={labelClasses}>
+                        Date source
+                        <select className={selectClasses} value={settings.source} onChange={event => update('source', event.target.value as DateStampSettings['source'])}>
+                            <option value="exif">Photo capture date (EXIF)</option>
+                            <option value="fixed">Fixed date</option>
+                        </select>
+                    </label>
+                    <label className={labelClasses}>
+                        {settings.source === 'exif' ? 'Fallback date' : 'Date'}
+                        <input
+                            type="datetime-local"
+                            className={selectClasses}
+                            value={settings.fixedDate}
+                            onChange={event => update('fixedDate', event.target.value)}
+                        />
+                    </label>
+                    <label className={labelClasses}>
+                        Format
+                        <select className={selectClasses} value={settings.format} onChange={event => update('format', event.target.value as DateStampFormat)}>
+                            {DATE_STAMP_FORMATS.map(format => (
+                                <option key={format.id} value={format.id}>{format.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className={labelClasses}>
+                        Colour
+                        <select className={selectClasses} value={settings.color} onChange={event => update('color', event.target.value as DateStampColor)}>
+                            <option value="orange">Orange</option>
+                            <option value="yellow">Yellow</option>
+                        </select>
+                    </label>
+                    <label className={labelClasses}>
+                        Corner
+                        <select className={selectClasses} value={settings.corner} onChange={event => update('corner', event.target.value as Corner)}>
+                            {CORNERS.map(corner => (
+                                <option key={corner} value={corner}>{corner.replace('-', ' ')}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className={labelClasses}>
+                        Font
+                        <select className={selectClasses} value={settings.font} onChange={event => update('font', event.target.value as DateStampFont)}>
+                            <option value="seven-segment">Seven-segment LCD</option>
+                            <option value="mono">Typewriter</option>
+                        </select>
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,104 @@
+import React from 'react';
+import { MAX_HISTORY_BYTES, MAX_HISTORY_ENTRIES, type HistoryEntry, type HistoryUsage } from '../services/historyStore';
+import { STYLES, getStyle } from '../shared/styles';
+import { ArrowDownTrayIcon, ArrowPathIcon } from './icons';
+
+interface HistoryPanelProps {
+    entries: HistoryEntry[];
+    usage: HistoryUsage | null;
+    onDownload: (entry: HistoryEntry) => void;
+    onRerun: (entry: HistoryEntry, styleId: string) => void;
+    onDelete: (id: string) => void;
+    onClear: () => void;
+    onClose: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const smallButtonClasses = "bg-gray-700 hover:bg-gray-600 text-white text-xs font-semibold py-1 px-3 rounded-full transition-colors duration-300 flex items-center gap-1";
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, usage, onDownload, onRerun, onDelete, onClear, onClose }) => {
+    const thumbnailUrls = React.useMemo(() => new Map(entries.map(entry => [entry.id, URL.createObjectURL(entry.thumbnail)])), [entries]);
+
+    React.useEffect(() => () => thumbnailUrls.forEach(url => URL.revokeObjectURL(url)), [thumbnailUrls]);
+
+    const usedFraction = usage ? Math.min(1, usage.bytes / MAX_HISTORY_BYTES) : 0;
+
+    const handleClear = () => {
+        if (window.confirm('Delete your whole transformation history? This cannot be undone.')) {
+            onClear();
+        }
+    };
+
+    return (
+        <div className="w-full text-left">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+                <div>
+                    <h2 className="text-2xl font-bold font-orbitron">History</h2>
+                    {usage && (
+                        <div className="mt-2 w-64">
+                            <div className="h-2 rounded-full bg-white/10 overflow-hidden" role="progressbar" aria-valuenow={Math.round(usedFraction * 100)} aria-valuemin={0} aria-valuemax={100} aria-label="History storage used">
+                                <div className="h-full bg-gradient-to-r from-teal-400 to-blue-500" style={{ width: `${usedFraction * 100}%` }}></div>
+                            </div>
+                            <p className="text-xs text-gray-400 mt-1">
+                                {formatBytes(usage.bytes)} of {formatBytes(MAX_HISTORY_BYTES)} · {usage.entries} of {MAX_HISTORY_ENTRIES} items
+                                {usage.quota !== null && ` · browser quota ${formatBytes(usage.quota)}`}
+                            </p>
+                            <p className="text-xs text-gray-500">The oldest items are removed automatically when either limit is reached.</p>
+                        </div>
+                    )}
+                </div>
+                <div className="flex items-center gap-3">
+                    <button onClick={handleClear} disabled={entries.length === 0} className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-5 rounded-full transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed">
+                        Clear All
+                    </button>
+                    <button onClick={onClose} className="bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white font-bold py-2 px-6 rounded-full transition-all duration-300 shadow-lg shadow-purple-500/30">
+                        Close
+                    </button>
+                </div>
+            </div>
+            {entries.length === 0 ? (
+                <p className="text-gray-400 text-center py-12">Nothing here yet. Finished transformations are saved automatically.</p>
+            ) : (
+                <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {entries.map(entry => {
+                        const style = getStyle(entry.styleId);
+                        return (
+                            <li key={entry.id} className="bg-white/5 p-3 rounded-xl border border-white/10 flex flex-col gap-3">
+                                <div className="aspect-square rounded-lg overflow-hidden bg-black/40">
+                                    <img src={thumbnailUrls.get(entry.id)} alt={`${style?.title ?? entry.styleId} result for ${entry.sourceName}`} className="w-full h-full object-contain" />
+                                </div>
+                                <div>
+                                    <p className="font-bold">{style?.title ?? entry.styleId}</p>
+                                    <p className="text-xs text-gray-400 truncate" title={entry.sourceName}>{entry.sourceName}</p>
+                                    <p className="text-xs text-gray-500">
+                                        {new Date(entry.createdAt).toLocaleString()}
+                                        {entry.promptVersion && ` · ${entry.promptVersion}`}
+                                    </p>
+                                </div>
+                                <div className="flex flex-wrap gap-2">
+                                    <button onClick={() => onDownload(entry)} className={smallButtonClasses}>
+                                        <ArrowDownTrayIcon className="w-4 h-4" />
+                                        Download
+                                    </button>
+                                    {STYLES.map(option => (
+                                        <button key={option.id} onClick={() => onRerun(entry, option.id)} className={smallButtonClasses} title={`Load the original photo with the ${option.title} style selected`}>
+                                            <ArrowPathIcon className="w-4 h-4" />
+                                            {option.id === entry.styleId ? 'Re-run' : `As ${option.title}`}
+                                        </button>
+                                    ))}
+                                    <button onClick={() => onDelete(entry.id)} className="text-xs text-red-300 hover:text-red-200 px-2">
+                                        Delete
+                                    </button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
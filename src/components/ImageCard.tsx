@@ -0,0 +1,33 @@
+import React, { useMemo } from 'react';
+
+interface ImageCardProps {
+    title: string;
+    imageUrl: string;
+    isTransformed?: boolean;
+    // Point (0-1 of each side) the square crop centres on, e.g. the people in the photo.
+    focus?: { x: number; y: number } | null;
+    children?: React.ReactNode;
+}
+
+export const ImageCard: React.FC<ImageCardProps> = ({ title, imageUrl, isTransformed = false, focus = null, children }) => {
+    const titleClasses = useMemo(() => 
+        isTransformed
+        ? "font-orbitron text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-teal-400 to-blue-500"
+        : "font-orbitron text-2xl font-bold text-gray-400", 
+    [isTransformed]);
+    
+    return (
+        <div className="bg-white/5 p-4 rounded-xl backdrop-blur-sm border border-white/10">
+            <h3 className={titleClasses}>{title}</h3>
+            <div className="relative mt-4 aspect-square rounded-lg overflow-hidden">
+                <img
+                    src={imageUrl}
+                    alt={title}
+                    className="w-full h-full object-cover"
+                    style={focus ? { objectPosition: `${focus.x * 100}% ${focus.y * 100}%` } : undefined}
+                />
+                {children}
+            </div>
+        </div>
+    );
+};
@@ -1,5 +1,8 @@
-
 import React from 'react';
+import { TRANSFORM_STAGES, getStageIndex, type TransformStage } from '../shared/progress';
+import type { Cooldown } from '../hooks/useTransformQueue';
+import { formatDuration } from '../services/time';
+import { CooldownNotice } from './CooldownNotice';
 
 const loadingMessages = [
     "Rewinding time to the early 2000s...",
@@ -12,8 +15,18 @@ const loadingMessages = [
     "Reticulating splines...",
 ];
 
-export const Loader: React.FC = () => {
+interface LoaderProps {
+    stage?: TransformStage | null;
+    startedAt?: number | null;
+    cooldown?: Cooldown | null;
+    onCancel?: () => void;
+    // Local filter approximation to show while the model works.
+    previewUrl?: string | null;
+}
+
+export const Loader: React.FC<LoaderProps> = ({ stage = null, startedAt = null, cooldown = null, onCancel, previewUrl = null }) => {
     const [message, setMessage] = React.useState(loadingMessages[0]);
+    const [now, setNow] = React.useState(() => Date.now());
 
     React.useEffect(() => {
         const interval = setInterval(() => {
@@ -27,12 +40,47 @@ export const Loader: React.FC = () => {
         return () => clearInterval(interval);
     }, []);
 
+    React.useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    // The stage reported is the last one completed, so the bar shows it as done.
+    const completedSteps = stage ? getStageIndex(stage) + 1 : 0;
+    const currentStep = TRANSFORM_STAGES[Math.min(completedSteps, TRANSFORM_STAGES.length - 1)];
+    const progress = Math.round((completedSteps / TRANSFORM_STAGES.length) * 100);
 
     return (
         <div className="flex flex-col items-center justify-center text-center p-8">
-            <div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-purple-500"></div>
+            {previewUrl ? (
+                <figure className="relative w-full max-w-sm">
+                    <img src={previewUrl} alt="Instant preview" className="w-full h-auto rounded-lg shadow-2xl shadow-purple-500/20" />
+                    <div className="absolute top-2 right-2 w-8 h-8 border-4 border-dashed rounded-full animate-spin border-purple-500"></div>
+                    <figcaption className="text-xs text-gray-500 mt-2">Instant preview from the local filter. The AI version is on its way.</figcaption>
+                </figure>
+            ) : (
+                <div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-purple-500"></div>
+            )}
             <h2 className="text-2xl font-bold font-orbitron mt-6 text-white">Transforming...</h2>
-            <p className="text-gray-400 mt-2 transition-opacity duration-500">{message}</p>
+            <p className="text-white mt-4">{currentStep.label}</p>
+            <div className="w-64 h-2 mt-3 rounded-full bg-white/10 overflow-hidden" role="progressbar" aria-valuenow={progress} aria-valuemin={0} aria-valuemax={100}>
+                <div className="h-full bg-gradient-to-r from-pink-500 to-purple-600 transition-all duration-500" style={{ width: `${progress}%` }}></div>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+                Step {Math.min(completedSteps + 1, TRANSFORM_STAGES.length)} of {TRANSFORM_STAGES.length}
+                {startedAt !== null && ` · ${formatDuration(now - startedAt)} elapsed`}
+            </p>
+            <p className="text-gray-400 mt-4 transition-opacity duration-500">{message}</p>
+            {cooldown && (
+                <div className="mt-6">
+                    <CooldownNotice cooldown={cooldown} />
+                </div>
+            )}
+            {onCancel && (
+                <button onClick={onCancel} className="mt-6 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-6 rounded-full transition-colors duration-300">
+                    Cancel
+                </button>
+            )}
         </div>
     );
-};
\ No newline at end of file
+};
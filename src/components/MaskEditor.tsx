@@ -0,0 +1,189 @@
+import React from 'react';
+import { createCanvas } from '../services/canvas';
+import { MAX_REFINEMENT_INSTRUCTION_LENGTH } from '../shared/refinement';
+
+interface MaskEditorProps {
+    imageUrl: string;
+    onSubmit: (mask: string, instruction: string) => void;
+    onCancel: () => void;
+}
+
+type MaskTool = 'brush' | 'lasso';
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+const MASK_COLOUR = '#ec4899';
+
+const inputClasses = "bg-black/40 border border-white/20 rounded-md px-3 py-2 text-sm text-white";
+
+// Turns the painted overlay into the black and white mask the function expects.
+const exportMask = (overlay: HTMLCanvasElement): string => {
+    const { canvas, ctx } = createCanvas(overlay.width, overlay.height);
+    const painted = (overlay.getContext('2d') as CanvasRenderingContext2D).getImageData(0, 0, overlay.width, overlay.height).data;
+    const mask = ctx.createImageData(overlay.width, overlay.height);
+    for (let offset = 0; offset < painted.length; offset += 4) {
+        const value = painted[offset + 3] > 0 ? 255 : 0;
+        mask.data[offset] = value;
+        mask.data[offset + 1] = value;
+        mask.data[offset + 2] = value;
+        mask.data[offset + 3] = 255;
+    }
+    ctx.putImageData(mask, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, onSubmit, onCancel }) => {
+    const canvasRef = React.useRef<HTMLCanvasElement>(null);
+    const strokeRef = React.useRef<Point[] | null>(null);
+    const [size, setSize] = React.useState<{ width: number; height: number } | null>(null);
+    const [tool, setTool] = React.useState<MaskTool>('brush');
+    // Brush diameter as a percentage of the image's longer side, so it feels the same at any resolution.
+    const [brushPercent, setBrushPercent] = React.useState(5);
+    const [hasMask, setHasMask] = React.useState(false);
+    const [instruction, setInstruction] = React.useState('');
+
+    const context = () => canvasRef.current?.getContext('2d') ?? null;
+
+    const toImagePoint = (event: React.PointerEvent<HTMLCanvasElement>): Point => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        return {
+            x: (event.clientX - rect.left) * (event.currentTarget.width / rect.width),
+            y: (event.clientY - rect.top) * (event.currentTarget.height / rect.height),
+        };
+    };
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        const ctx = context();
+        if (!ctx || !size) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        const point = toImagePoint(event);
+        strokeRef.current = [point];
+        ctx.strokeStyle = MASK_COLOUR;
+        ctx.fillStyle = MASK_COLOUR;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = tool === 'brush' ? Math.max(size.width, size.height) * brushPercent / 100 : 2;
+        if (tool === 'brush') {
+            ctx.beginPath();
+            ctx.arc(point.x, point.y, ctx.lineWidth / 2, 0, Math.PI * 2);
+            ctx.fill();
+        }
+        setHasMask(true);
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        const ctx = context();
+        const stroke = strokeRef.current;
+        if (!ctx || !stroke) return;
+        const point = toImagePoint(event);
+        const previous = stroke[stroke.length - 1];
+        ctx.beginPath();
+        ctx.moveTo(previous.x, previous.y);
+        ctx.lineTo(point.x, point.y);
+        ctx.stroke();
+        stroke.push(point);
+    };
+
+    // A lasso closes back to where it started and fills everything inside.
+    const handlePointerUp = () => {
+        const ctx = context();
+        const stroke = strokeRef.current;
+        strokeRef.current = null;
+        if (!ctx || !stroke || tool !== 'lasso' || stroke.length < 3) return;
+        ctx.beginPath();
+        stroke.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+        ctx.closePath();
+        ctx.fill();
+    };
+
+    const handleClear = () => {
+        const ctx = context();
+        if (ctx && size) ctx.clearRect(0, 0, size.width, size.height);
+        setHasMask(false);
+    };
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!canvasRef.current || !hasMask || !instruction.trim()) return;
+        onSubmit(exportMask(canvasRef.current), instruction.trim());
+    };
+
+    return (
+        <div className="w-full">
+            <div className="relative w-full max-w-3xl mx-auto rounded-xl overflow-hidden border border-white/10">
+                <img
+                    src={imageUrl}
+                    alt="Transformed result"
+                    className="w-full h-auto block select-none"
+                    draggable={false}
+                    onLoad={event => setSize({ width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight })}
+                />
+                {size && (
+                    <canvas
+                        ref={canvasRef}
+                        width={size.width}
+                        height={size.height}
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={handlePointerUp}
+                        className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+                        aria-label="Paint over the area to change"
+                    />
+                )}
+            </div>
+            <div className="w-full max-w-3xl mx-auto mt-4 bg-white/5 border border-white/10 rounded-lg p-4 text-left">
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                    <div className="flex rounded-full overflow-hidden border border-white/20" role="radiogroup" aria-label="Mask tool">
+                        {(['brush', 'lasso'] as const).map(option => (
+                            <button
+                                key={option}
+                                type="button"
+                                role="radio"
+                                aria-checked={tool === option}
+                                onClick={() => setTool(option)}
+                                className={`px-4 py-1 capitalize ${tool === option ? 'bg-purple-600 text-white' : 'text-gray-300 hover:text-white'}`}
+                            >
+                                {option}
+                            </button>
+                        ))}
+                    </div>
+                    {tool === 'brush' && (
+                        <label className="flex items-center gap-2 text-xs text-gray-400">
+                            Brush size
+                            <input type="range" min={2} max={15} value={brushPercent} onChange={event => setBrushPercent(Number(event.target.value))} className="accent-purple-500" />
+                        </label>
+                    )}
+                    <button type="button" onClick={handleClear} disabled={!hasMask} className="text-xs text-gray-300 hover:text-white disabled:opacity-50">
+                        Clear
+                    </button>
+                </div>
+                <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2 mt-3">
+                    <input
+                        type="text"
+                        value={instruction}
+                        maxLength={MAX_REFINEMENT_INSTRUCTION_LENGTH}
+                        onChange={event => setInstruction(event.target.value)}
+                        placeholder={'What should change here? e.g. "move the date stamp off this face"'}
+                        aria-label="Instruction for the painted region"
+                        className={`${inputClasses} flex-1 min-w-0`}
+                    />
+                    <button type="button" onClick={onCancel} className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-2 px-5 rounded-full transition-colors duration-300">
+                        Cancel
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={!hasMask || !instruction.trim()}
+                        className="bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white text-sm font-bold py-2 px-5 rounded-full transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Edit Region
+                    </button>
+                </form>
+                <p className="text-xs text-gray-500 mt-2">Only the painted area is regenerated; everything else stays exactly as it is.</p>
+            </div>
+        </div>
+    );
+};
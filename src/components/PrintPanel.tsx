@@ -0,0 +1,140 @@
+import React from 'react';
+import { PRINT_DPI, PRINT_LAYOUTS, countPrintPages, getPrintLayout, printLayoutToPdf, printLayoutToPng, releasePrintPage, renderPrintPage, type PrintLayoutId, type PrintPage, type PrintSource } from '../services/printLayout';
+import { downloadBlob } from '../services/download';
+
+interface PrintPanelProps {
+    // The result on screen first, then the rest of the session's results.
+    sources: PrintSource[];
+    fileSlug: string;
+    onClose: () => void;
+}
+
+type PrintScope = 'current' | 'all';
+
+const PREVIEW_EDGE = 480;
+
+const inputClasses = "bg-black/40 border border-white/20 rounded-md px-2 py-1 text-sm text-white";
+const labelClasses = "flex flex-col gap-1 text-xs text-gray-400 text-left";
+const buttonClasses = "bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-2 px-4 rounded-full transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed";
+
+// A small JPEG of the page; export draws the full-size pages again one at a time.
+const previewOf = (page: PrintPage): string => {
+    const scale = PREVIEW_EDGE / Math.max(page.canvas.width, page.canvas.height);
+    const preview = document.createElement('canvas');
+    preview.width = Math.round(page.canvas.width * scale);
+    preview.height = Math.round(page.canvas.height * scale);
+    preview.getContext('2d')?.drawImage(page.canvas, 0, 0, preview.width, preview.height);
+    return preview.toDataURL('image/jpeg', 0.8);
+};
+
+export const PrintPanel: React.FC<PrintPanelProps> = ({ sources, fileSlug, onClose }) => {
+    const [layoutId, setLayoutId] = React.useState<PrintLayoutId>('print-4x6');
+    const [scope, setScope] = React.useState<PrintScope>('current');
+    const [previewUrl, setPreviewUrl] = React.useState<string | null>(null);
+    const [isExporting, setIsExporting] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+    const layout = getPrintLayout(layoutId);
+    // The album re-renders on every progress update; only a change in the
+    // images themselves should draw the preview again.
+    const selectedRef = React.useRef<PrintSource[]>([]);
+    const next = scope === 'all' ? sources : sources.slice(0, 1);
+    if (next.length !== selectedRef.current.length || next.some((source, index) => source.url !== selectedRef.current[index].url)) {
+        selectedRef.current = next;
+    }
+    const selected = selectedRef.current;
+    const pageCount = countPrintPages(layoutId, selected);
+
+    React.useEffect(() => {
+        let cancelled = false;
+        setPreviewUrl(null);
+        setError(null);
+        renderPrintPage(layoutId, selected, 0)
+            .then(page => {
+                if (!cancelled) setPreviewUrl(previewOf(page));
+                releasePrintPage(page);
+            })
+            .catch(renderError => {
+                if (!cancelled) setError(renderError instanceof Error ? renderError.message : 'Could not lay out the print.');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [layoutId, selected]);
+
+    const handleExport = async (format: 'pdf' | 'png') => {
+        if (!previewUrl) return;
+        setIsExporting(true);
+        setError(null);
+        const baseName = `2000s-flashback-${fileSlug}-${layoutId}`;
+        try {
+            if (format === 'pdf') {
+                downloadBlob(await printLayoutToPdf(layoutId, selected), `${baseName}.pdf`);
+            } else {
+                const { blob, fileName } = await printLayoutToPng(layoutId, selected, baseName);
+                downloadBlob(blob, fileName);
+            }
+        } catch (exportError) {
+            setError(exportError instanceof Error ? exportError.message : 'Could not export the print.');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="w-full max-w-2xl mx-auto mt-6 bg-white/5 border border-white/10 rounded-lg p-4 text-left">
+            <div className="flex items-center justify-between gap-4 mb-4">
+                <h4 className="font-bold">Print Layout</h4>
+                <button onClick={onClose} className="text-sm text-gray-400 hover:text-white">Close</button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4" role="radiogroup" aria-label="Print layout">
+                {PRINT_LAYOUTS.map(option => (
+                    <button
+                        key={option.id}
+                        onClick={() => setLayoutId(option.id)}
+                        role="radio"
+                        aria-checked={layoutId === option.id}
+                        className={`p-3 rounded-lg border-2 text-left transition-colors duration-300 ${layoutId === option.id ? 'bg-purple-500/20 border-purple-500' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+                    >
+                        <span className="block font-semibold text-sm">{option.label}</span>
+                        <span className="block text-xs text-gray-400">{option.description}</span>
+                    </button>
+                ))}
+            </div>
+            {sources.length > 1 && (
+                <label className={`${labelClasses} mb-4 w-48`}>
+                    Photos
+                    <select className={inputClasses} value={scope} onChange={event => setScope(event.target.value as PrintScope)}>
+                        <option value="current">This result</option>
+                        <option value="all">All {sources.length} results</option>
+                    </select>
+                </label>
+            )}
+            <div className="flex flex-col sm:flex-row gap-4 items-start">
+                <div className="w-full sm:w-1/2 aspect-square bg-black/40 rounded-md flex items-center justify-center overflow-hidden">
+                    {previewUrl ? (
+                        <img src={previewUrl} alt={`${layout.label} preview`} className="max-w-full max-h-full object-contain shadow-lg" />
+                    ) : (
+                        <p className="text-sm text-gray-400">{error ? 'No preview' : 'Laying out…'}</p>
+                    )}
+                </div>
+                <div className="flex flex-col gap-3 text-sm text-gray-400">
+                    {previewUrl && (
+                        <p>
+                            {pageCount} {pageCount === 1 ? 'page' : 'pages'} at {PRINT_DPI} DPI
+                            {layout.bleed > 0 && `, including ${layout.bleed}" bleed on each side that the lab trims off`}.
+                        </p>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={() => void handleExport('pdf')} disabled={!previewUrl || isExporting} className={buttonClasses}>
+                            Download PDF
+                        </button>
+                        <button onClick={() => void handleExport('png')} disabled={!previewUrl || isExporting} className={buttonClasses}>
+                            {pageCount > 1 ? 'Download PNGs (ZIP)' : 'Download PNG'}
+                        </button>
+                    </div>
+                    {error && <p className="text-red-300">{error}</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
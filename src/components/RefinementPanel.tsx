@@ -0,0 +1,122 @@
+import React from 'react';
+import type { PendingRefinement, ResultVersion } from '../hooks/useTransformQueue';
+import { MAX_REFINEMENT_INSTRUCTION_LENGTH } from '../shared/refinement';
+import { SparklesIcon } from './icons';
+
+interface RefinementPanelProps {
+    versions: ResultVersion[];
+    currentVersion: string | null;
+    pending: PendingRefinement | null;
+    // Another change (such as a variation re-roll) is in progress.
+    disabled: boolean;
+    onRefine: (instruction: string) => void;
+    // Opens the mask editor for an edit limited to one region.
+    onPaintRegion: () => void;
+    onSelectVersion: (id: string) => void;
+    onCancel: () => void;
+}
+
+const SUGGESTIONS = ['Less vignette', 'Softer flash', 'Warmer colours', 'Less noise', 'Move the props away from faces'];
+
+const inputClasses = "bg-black/40 border border-white/20 rounded-md px-3 py-2 text-sm text-white";
+
+export const RefinementPanel: React.FC<RefinementPanelProps> = ({ versions, currentVersion, pending, disabled, onRefine, onPaintRegion, onSelectVersion, onCancel }) => {
+    const [instruction, setInstruction] = React.useState('');
+    const labels = new Map(versions.map((version, index) => [version.id, `v${index + 1}`]));
+    const canSubmit = !disabled && pending === null && instruction.trim().length > 0;
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!canSubmit) return;
+        onRefine(instruction.trim());
+        setInstruction('');
+    };
+
+    return (
+        <div className="w-full max-w-2xl mx-auto mb-6 bg-white/5 border border-white/10 rounded-lg p-4 text-left">
+            <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+                <input
+                    type="text"
+                    value={instruction}
+                    maxLength={MAX_REFINEMENT_INSTRUCTION_LENGTH}
+                    onChange={event => setInstruction(event.target.value)}
+                    placeholder='Ask for a change, e.g. "swap the iPod for a Discman"'
+                    aria-label="Follow-up edit"
+                    className={`${inputClasses} flex-1 min-w-0`}
+                />
+                <button
+                    type="submit"
+                    disabled={!canSubmit}
+                    className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-2 px-5 rounded-full transition-colors duration-300 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <SparklesIcon className="w-4 h-4" />
+                    Refine
+                </button>
+                <button
+                    type="button"
+                    onClick={onPaintRegion}
+                    disabled={disabled || pending !== null}
+                    title="Paint over one area and change only that"
+                    className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-2 px-5 rounded-full transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Edit a Region
+                </button>
+            </form>
+            <div className="flex flex-wrap gap-2 mt-2">
+                {SUGGESTIONS.map(suggestion => (
+                    <button
+                        key={suggestion}
+                        type="button"
+                        onClick={() => setInstruction(suggestion)}
+                        className="bg-white/5 border border-white/10 rounded-full px-3 py-1 text-xs text-gray-300 hover:text-white"
+                    >
+                        {suggestion}
+                    </button>
+                ))}
+            </div>
+
+            {(versions.length > 0 || pending) && (
+                <div className="mt-4">
+                    <p className="text-xs text-gray-400 mb-2">Versions: pick an earlier one and refine it to start a new branch.</p>
+                    <ol className="flex gap-3 overflow-x-auto pb-2">
+                        {versions.map(version => {
+                            const isCurrent = version.id === currentVersion;
+                            return (
+                                <li key={version.id} className="shrink-0 w-24">
+                                    <button
+                                        onClick={() => onSelectVersion(version.id)}
+                                        aria-pressed={isCurrent}
+                                        title={version.instruction ?? 'Starting point'}
+                                        className={`block w-24 h-24 rounded-lg overflow-hidden border-2 transition-all duration-300 ${isCurrent ? 'border-purple-500 shadow-lg shadow-purple-500/30' : 'border-white/10 opacity-70 hover:opacity-100'}`}
+                                    >
+                                        <img src={version.variation.url} alt="" className="w-full h-full object-cover" />
+                                    </button>
+                                    <p className="text-xs font-bold mt-1">
+                                        {labels.get(version.id)}
+                                        {version.parentId && <span className="font-normal text-gray-500"> ← {labels.get(version.parentId)}</span>}
+                                    </p>
+                                    <p className="text-xs text-gray-400 truncate" title={version.instruction ?? undefined}>
+                                        {version.masked && <span className="text-pink-300">Region: </span>}
+                                        {version.instruction ?? 'Original'}
+                                    </p>
+                                </li>
+                            );
+                        })}
+                        {pending && (
+                            <li className="shrink-0 w-24">
+                                <div className="w-24 h-24 rounded-lg border-2 border-dashed border-white/20 flex items-center justify-center">
+                                    <div className="w-8 h-8 border-4 border-dashed rounded-full animate-spin border-purple-500"></div>
+                                </div>
+                                <p className="text-xs font-bold mt-1">
+                                    v{versions.length + 1}
+                                    <span className="font-normal text-gray-500"> ← {labels.get(pending.parentId)}</span>
+                                </p>
+                                <button onClick={onCancel} className="text-xs text-red-300 hover:text-red-200">Cancel</button>
+                            </li>
+                        )}
+                    </ol>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { DEFAULT_SHARE_EXPIRY, SHARE_EXPIRY_OPTIONS, type ShareExpiry } from '../shared/share';
+import { createShareLink, type ShareLink } from '../services/shareService';
+import { LinkIcon } from './icons';
+
+interface SharePanelProps {
+    imageUrl: string;
+    styleId: string;
+}
+
+const EXPIRY_LABELS: Record<ShareExpiry, string> = { 1: '1 day', 7: '7 days', 30: '30 days' };
+
+const inputClasses = "bg-black/40 border border-white/20 rounded-md px-2 py-1 text-sm text-white";
+
+export const SharePanel: React.FC<SharePanelProps> = ({ imageUrl, styleId }) => {
+    const [expiry, setExpiry] = React.useState<ShareExpiry>(DEFAULT_SHARE_EXPIRY);
+    const [link, setLink] = React.useState<ShareLink | null>(null);
+    const [isSharing, setIsSharing] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+    const [copied, setCopied] = React.useState(false);
+
+    // A link belongs to one image; picking another variation starts over.
+    React.useEffect(() => {
+        setLink(null);
+        setError(null);
+    }, [imageUrl]);
+
+    const handleShare = async () => {
+        setIsSharing(true);
+        setError(null);
+        try {
+            setLink(await createShareLink(imageUrl, styleId, expiry));
+            setCopied(false);
+        } catch (shareError) {
+            setError(shareError instanceof Error ? shareError.message : 'Could not create a share link.');
+        } finally {
+            setIsSharing(false);
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!link) return;
+        try {
+            await navigator.clipboard.writeText(link.url);
+            setCopied(true);
+        } catch {
+            setError('Could not copy the link. Select it and copy it by hand.');
+        }
+    };
+
+    return (
+        <div className="w-full max-w-2xl mx-auto mt-6 bg-white/5 border border-white/10 rounded-lg p-4 text-left">
+            <div className="flex flex-wrap items-center gap-3">
+                <span className="font-bold flex items-center gap-2">
+                    <LinkIcon className="w-5 h-5" />
+                    Share a link
+                </span>
+                <label className="flex items-center gap-2 text-xs text-gray-400">
+                    Expires
+                    <select
+                        className={inputClasses}
+                        value={expiry}
+                        onChange={event => setExpiry(Number(event.target.value) as ShareExpiry)}
+                    >
+                        {SHARE_EXPIRY_OPTIONS.map(option => (
+                            <option key={option} value={option}>{EXPIRY_LABELS[option]}</option>
+                        ))}
+                    </select>
+                </label>
+                <button
+                    onClick={handleShare}
+                    disabled={isSharing}
+                    className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-1 px-4 rounded-full transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isSharing ? 'Creating…' : link ? 'Create New Link' : 'Create Link'}
+                </button>
+            </div>
+            {link && (
+                <div className="mt-3">
+                    <div className="flex gap-2">
+                        <input type="text" readOnly value={link.url} onFocus={event => event.target.select()} className={`${inputClasses} flex-1 min-w-0`} aria-label="Share link" />
+                        <button onClick={handleCopy} className="bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white text-sm font-bold py-1 px-4 rounded-full transition-all duration-300">
+                            {copied ? 'Copied!' : 'Copy'}
+                        </button>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                        This link expires on {new Date(link.expiresAt).toLocaleString()}.
+                    </p>
+                </div>
+            )}
+            {error && <p className="text-sm text-red-300 mt-2">{error}</p>}
+        </div>
+    );
+};
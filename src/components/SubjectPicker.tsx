@@ -0,0 +1,104 @@
+import React from 'react';
+import { CUTOUT_GROUPINGS, type CutoutGrouping, type SubjectBox, type SubjectSelection } from '../shared/subjects';
+
+export interface SubjectPickerPhoto {
+    id: string;
+    url: string;
+    // null while detection is still running.
+    subjects: SubjectBox[] | null;
+    selection: SubjectSelection;
+}
+
+interface SubjectPickerProps {
+    photos: SubjectPickerPhoto[];
+    onChange: (id: string, selection: SubjectSelection) => void;
+}
+
+const GROUPING_LABELS: Record<CutoutGrouping, { title: string; description: string }> = {
+    group: { title: 'Single group cutout', description: 'Everyone in one shape with a shared border.' },
+    individual: { title: 'One cutout per person', description: 'Each person gets their own border.' },
+};
+
+const toggleExcluded = (selection: SubjectSelection, index: number): SubjectSelection => ({
+    ...selection,
+    excluded: selection.excluded.includes(index)
+        ? selection.excluded.filter(excluded => excluded !== index)
+        : [...selection.excluded, index].sort((a, b) => a - b),
+});
+
+const PhotoSubjects: React.FC<{ photo: SubjectPickerPhoto; onChange: (selection: SubjectSelection) => void }> = ({ photo, onChange }) => {
+    const subjects = photo.subjects ?? [];
+    const includedCount = subjects.length - photo.selection.excluded.length;
+
+    return (
+        <figure className="flex flex-col gap-2">
+            <div className="relative rounded-md overflow-hidden bg-black/40">
+                <img src={photo.url} alt="" className="w-full h-auto block" />
+                {subjects.map((box, index) => {
+                    const excluded = photo.selection.excluded.includes(index);
+                    // The last person left can't be removed; the cutout needs someone in it.
+                    const locked = !excluded && includedCount === 1;
+                    return (
+                        <button
+                            key={index}
+                            onClick={() => onChange(toggleExcluded(photo.selection, index))}
+                            disabled={locked}
+                            aria-pressed={!excluded}
+                            aria-label={`Person ${index + 1}: ${excluded ? 'left out' : 'included'}`}
+                            title={locked ? 'At least one person has to stay in' : excluded ? 'Tap to include' : 'Tap to leave out'}
+                            className={`absolute rounded-md border-2 transition-colors duration-300 ${excluded ? 'border-dashed border-white/40 bg-black/60' : 'border-purple-400 bg-purple-500/10 hover:bg-purple-500/20'} disabled:cursor-not-allowed`}
+                            style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}
+                        >
+                            <span className={`absolute -top-px -left-px text-xs font-bold px-1 rounded-br-md ${excluded ? 'bg-gray-700 text-gray-300 line-through' : 'bg-purple-500 text-white'}`}>
+                                {index + 1}
+                            </span>
+                        </button>
+                    );
+                })}
+            </div>
+            <figcaption className="text-xs text-gray-400">
+                {photo.subjects === null
+                    ? 'Looking for people…'
+                    : subjects.length === 0
+                        ? 'No one found; the model will pick the subject itself.'
+                        : `${includedCount} of ${subjects.length} ${subjects.length === 1 ? 'person' : 'people'} included`}
+            </figcaption>
+        </figure>
+    );
+};
+
+// Lets the user decide who ends up in the cutout collage. The grouping applies
+// to every photo; people are picked per photo by tapping their boxes.
+export const SubjectPicker: React.FC<SubjectPickerProps> = ({ photos, onChange }) => {
+    const grouping = photos[0]?.selection.grouping ?? 'group';
+
+    const setGrouping = (next: CutoutGrouping) => {
+        photos.forEach(photo => onChange(photo.id, { ...photo.selection, grouping: next }));
+    };
+
+    return (
+        <div className="w-full max-w-2xl bg-white/5 border border-white/10 rounded-lg p-4 text-left">
+            <h4 className="font-bold">People to Cut Out</h4>
+            <p className="text-sm text-gray-400 mb-4">Tap a person to leave them out of the collage.</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-4" role="radiogroup" aria-label="Cutout grouping">
+                {CUTOUT_GROUPINGS.map(option => (
+                    <button
+                        key={option}
+                        onClick={() => setGrouping(option)}
+                        role="radio"
+                        aria-checked={grouping === option}
+                        className={`p-3 rounded-lg border-2 text-left transition-colors duration-300 ${grouping === option ? 'bg-purple-500/20 border-purple-500' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+                    >
+                        <span className="block font-semibold text-sm">{GROUPING_LABELS[option].title}</span>
+                        <span className="block text-xs text-gray-400">{GROUPING_LABELS[option].description}</span>
+                    </button>
+                ))}
+            </div>
+            <div className={`grid gap-4 ${photos.length === 1 ? 'grid-cols-1 max-w-sm mx-auto' : 'grid-cols-2 sm:grid-cols-3'}`}>
+                {photos.map(photo => (
+                    <PhotoSubjects key={photo.id} photo={photo} onChange={selection => onChange(photo.id, selection)} />
+                ))}
+            </div>
+        </div>
+    );
+};
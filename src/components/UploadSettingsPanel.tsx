@@ -0,0 +1,43 @@
+import React from 'react';
+import { MAX_EDGE_OPTIONS, type PreprocessSettings, type UploadFormat } from '../services/preprocess';
+
+interface UploadSettingsPanelProps {
+    settings: PreprocessSettings;
+    onChange: (settings: PreprocessSettings) => void;
+}
+
+const selectClasses = "bg-black/40 border border-white/20 rounded-md px-2 py-1 text-sm text-white";
+const labelClasses = "flex flex-col gap-1 text-xs text-gray-400 text-left";
+
+export const UploadSettingsPanel: React.FC<UploadSettingsPanelProps> = ({ settings, onChange }) => {
+    const update = <K extends keyof PreprocessSettings>(key: K, value: PreprocessSettings[K]) => {
+        onChange({ ...settings, [key]: value });
+    };
+
+    return (
+        <details className="w-full max-w-2xl bg-white/5 border border-white/10 rounded-lg p-4 text-left">
+            <summary className="font-bold cursor-pointer">Upload Quality</summary>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-4">
+                <label className={labelClasses}>
+                    Max size (longest edge)
+                    <select className={selectClasses} value={settings.maxEdge} onChange={event => update('maxEdge', Number(event.target.value))}>
+                        {MAX_EDGE_OPTIONS.map(edge => (
+                            <option key={edge} value={edge}>{edge}px</option>
+                        ))}
+                    </select>
+                </label>
+                <label className={labelClasses}>
+                    Format
+                    <select className={selectClasses} value={settings.format} onChange={event => update('format', event.target.value as UploadFormat)}>
+                        <option value="image/jpeg">JPEG</option>
+                        <option value="image/webp">WebP</option>
+                    </select>
+                </label>
+                <label className={labelClasses}>
+                    Quality ({Math.round(settings.quality * 100)}%)
+                    <input type="range" min={0.5} max={1} step={0.05} value={settings.quality} onChange={event => update('quality', Number(event.target.value))} className="accent-purple-500" />
+                </label>
+            </div>
+        </details>
+    );
+};
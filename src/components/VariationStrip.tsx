@@ -0,0 +1,47 @@
+import React from 'react';
+import { ArrowPathIcon } from './icons';
+
+interface VariationStripProps {
+    urls: string[];
+    selected: number;
+    rerolling: number | null;
+    onSelect: (index: number) => void;
+    onReroll: (index: number) => void;
+}
+
+export const VariationStrip: React.FC<VariationStripProps> = ({ urls, selected, rerolling, onSelect, onReroll }) => (
+    <div className="flex flex-wrap justify-center gap-3 mb-8" role="radiogroup" aria-label="Variations">
+        {urls.map((url, index) => {
+            const isSelected = index === selected;
+            const isRerolling = index === rerolling;
+            return (
+                <div key={index} className="relative">
+                    <button
+                        onClick={() => onSelect(index)}
+                        role="radio"
+                        aria-checked={isSelected}
+                        aria-label={`Variation ${index + 1}`}
+                        className={`block w-24 h-24 rounded-lg overflow-hidden border-2 transition-all duration-300 ${isSelected ? 'border-purple-500 shadow-lg shadow-purple-500/30' : 'border-white/10 opacity-70 hover:opacity-100'}`}
+                    >
+                        <img src={url} alt="" className={`w-full h-full object-cover ${isRerolling ? 'blur-sm' : ''}`} />
+                    </button>
+                    {isRerolling ? (
+                        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                            <div className="w-8 h-8 border-4 border-dashed rounded-full animate-spin border-purple-500"></div>
+                        </div>
+                    ) : (
+                        <button
+                            onClick={() => onReroll(index)}
+                            disabled={rerolling !== null}
+                            title={`Re-roll variation ${index + 1}`}
+                            aria-label={`Re-roll variation ${index + 1}`}
+                            className="absolute -top-2 -right-2 w-7 h-7 rounded-full bg-gray-800 border border-white/20 hover:bg-gray-600 flex items-center justify-center disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            <ArrowPathIcon className="w-4 h-4" />
+                        </button>
+                    )}
+                </div>
+            );
+        })}
+    </div>
+);
@@ -0,0 +1,74 @@
+import React from 'react';
+import { CORNERS, type Corner } from '../shared/styles';
+import { DEFAULT_WATERMARK, splitWatermarkText, type WatermarkSettings } from '../services/watermark';
+
+interface WatermarkPanelProps {
+    settings: WatermarkSettings;
+    onChange: (settings: WatermarkSettings) => void;
+}
+
+const inputClasses = "bg-black/40 border border-white/20 rounded-md px-2 py-1 text-sm text-white";
+const labelClasses = "flex flex-col gap-1 text-xs text-gray-400 text-left";
+
+export const WatermarkPanel: React.FC<WatermarkPanelProps> = ({ settings, onChange }) => {
+    const update = <K extends keyof WatermarkSettings>(key: K, value: WatermarkSettings[K]) => {
+        onChange({ ...settings, [key]: value });
+    };
+
+    return (
+        <div className="w-full max-w-2xl bg-white/5 border border-white/10 rounded-lg p-4">
+            <div className="flex items-center justify-between gap-4">
+                <label className="flex items-center gap-2 font-bold cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.enabled}
+                        onChange={event => update('enabled', event.target.checked)}
+                        className="accent-purple-500"
+                    />
+                    Watermark
+                </label>
+                {settings.enabled && (
+                    <span className="font-orbitron font-bold truncate" style={{ opacity: settings.opacity }}>
+                        {splitWatermarkText(settings.text, settings.accentText).map((run, index) => (
+                            <span key={index} style={{ color: run.accent ? settings.accentColor : '#ffffff' }}>{run.text}</span>
+                        ))}
+                    </span>
+                )}
+            </div>
+
+            {settings.enabled && (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mt-4">
+                    <label className={labelClasses}>
+                        Text
+                        <input type="text" maxLength={40} className={inputClasses} value={settings.text} onChange={event => update('text', event.target.value)} />
+                    </label>
+                    <label className={labelClasses}>
+                        Accent word
+                        <input type="text" maxLength={40} className={inputClasses} value={settings.accentText} onChange={event => update('accentText', event.target.value)} />
+                    </label>
+                    <label className={labelClasses}>
+                        Accent colour
+                        <input type="color" className="h-8 w-full bg-transparent cursor-pointer" value={settings.accentColor} onChange={event => update('accentColor', event.target.value)} />
+                    </label>
+                    <label className={labelClasses}>
+                        Opacity ({Math.round(settings.opacity * 100)}%)
+                        <input type="range" min={0.2} max={1} step={0.05} value={settings.opacity} onChange={event => update('opacity', Number(event.target.value))} className="accent-purple-500" />
+                    </label>
+                    <label className={labelClasses}>
+                        Corner
+                        <select className={inputClasses} value={settings.corner} onChange={event => update('corner', event.target.value as Corner)}>
+                            {CORNERS.map(corner => (
+                                <option key={corner} value={corner}>{corner.replace('-', ' ')}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <div className="flex items-end">
+                        <button onClick={() => onChange(DEFAULT_WATERMARK)} className="text-xs text-gray-400 hover:text-white underline">
+                            Reset branding
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  addHistoryEntry,
+  clearHistory,
+  deleteHistoryEntry,
+  getHistoryUsage,
+  listHistory,
+  type HistoryEntry,
+  type HistoryUsage,
+  type NewHistoryEntry,
+} from '../services/historyStore';
+
+// IndexedDB can be unavailable (private windows in some browsers); history then
+// quietly stays empty instead of breaking the app.
+export const useHistory = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [usage, setUsage] = useState<HistoryUsage | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const next = await listHistory();
+      setEntries(next);
+      setUsage(await getHistoryUsage(next));
+    } catch (error) {
+      console.warn('Could not read transformation history:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const record = useCallback(async (entry: NewHistoryEntry) => {
+    try {
+      await addHistoryEntry(entry);
+      await refresh();
+    } catch (error) {
+      console.warn('Could not save to transformation history:', error);
+    }
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      await refresh();
+    } catch (error) {
+      console.warn('Could not delete history entry:', error);
+    }
+  }, [refresh]);
+
+  const clear = useCallback(async () => {
+    try {
+      await clearHistory();
+      await refresh();
+    } catch (error) {
+      console.warn('Could not clear transformation history:', error);
+    }
+  }, [refresh]);
+
+  return { entries, usage, record, remove, clear };
+};
@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+
+// useState that survives reloads via localStorage. Stored values are merged
+// over the default so settings saved by an older version still load.
+export const usePersistentState = <T extends object>(key: string, defaultValue: T) => {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? { ...defaultValue, ...JSON.parse(stored) } : defaultValue;
+    } catch {
+      return defaultValue;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.warn(`Could not persist ${key}:`, error);
+    }
+  }, [key, value]);
+
+  return [value, setValue] as const;
+};
@@ -0,0 +1,473 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { runRefinementPipeline, runTransformPipeline, type ResultVariation, type TransformOptions } from '../services/transformPipeline';
+import { isRateLimitError } from '../services/geminiService';
+import { decodeHeic } from '../services/preprocess';
+import { detectSubjects } from '../services/subjectDetection';
+import { isHeicFile } from '../services/imageFiles';
+import type { TransformStage } from '../shared/progress';
+import { MAX_REFINEMENT_HISTORY } from '../shared/refinement';
+import { DEFAULT_SUBJECT_SELECTION, type CutoutSubjects, type SubjectBox, type SubjectSelection } from '../shared/subjects';
+
+export type ItemStatus = 'idle' | 'queued' | 'running' | 'done' | 'failed';
+
+// One step in a photo's follow-up edits. Versions form a tree: editing an
+// older version starts a new branch instead of discarding the newer ones.
+export interface ResultVersion {
+  id: string;
+  // null for a variation that follow-up edits started from.
+  parentId: string | null;
+  instruction: string | null;
+  // Whether the edit was limited to a painted region.
+  masked: boolean;
+  variation: ResultVariation;
+  createdAt: number;
+}
+
+export interface PendingRefinement {
+  parentId: string;
+  instruction: string;
+  // PNG data URL, white over the region to change; absent for whole-image edits.
+  mask?: string;
+}
+
+export interface AlbumItem {
+  id: string;
+  file: File;
+  url: string;
+  // People found on the device when the photo was added; null until detection finishes.
+  subjects: SubjectBox[] | null;
+  // Which of those people the cutout style keeps, picked on the preview screen.
+  subjectSelection: SubjectSelection;
+  status: ItemStatus;
+  stage: TransformStage | null;
+  startedAt: number | null;
+  styleId: string | null;
+  options: TransformOptions | null;
+  // Set by a re-roll: the next run asks for a fresh result instead of a cached
+  // one. Cleared once that run finishes, so later runs use the cache again.
+  skipCacheOnce: boolean;
+  // The chosen variation; this is what downloads and exports use.
+  resultUrl: string | null;
+  variations: ResultVariation[];
+  selectedVariation: number;
+  // Set while a single variation is being regenerated. The item keeps its
+  // other results on screen in the meantime.
+  rerollingVariation: number | null;
+  // Follow-up edits in the order they were made, and the one on screen (null
+  // while a plain variation is shown).
+  versions: ResultVersion[];
+  currentVersion: string | null;
+  // Set while a follow-up edit waits for or runs its model call.
+  pendingRefinement: PendingRefinement | null;
+  // Local filter approximation shown while the model runs, and offered as a
+  // fallback if it fails.
+  preview: ResultVariation | null;
+  error: string | null;
+  completedAt: number | null;
+  promptVersion: string | null;
+  model: string | null;
+  // What the cutout style reported cutting out; null for other styles.
+  cutoutSubjects: CutoutSubjects | null;
+  cached: boolean;
+}
+
+// Keep the number of simultaneous model calls low; the function is slow and
+// every call costs money.
+const MAX_CONCURRENCY = 2;
+
+// Recorded as the model for results produced by the local filter.
+export const LOCAL_FILTER_MODEL = 'local-lofi-filter';
+
+// Fallback pause when the server rate limits us without saying for how long.
+const DEFAULT_COOLDOWN_SECONDS = 30;
+
+// Whether an item has a result to show, including while one of its variations
+// is being re-rolled or a follow-up edit is in progress.
+export const hasVisibleResult = (item: AlbumItem): boolean =>
+  item.resultUrl !== null && (item.status === 'done' || item.rerollingVariation !== null || item.pendingRefinement !== null);
+
+// The versions from the root down to `id`, oldest first.
+export const getVersionChain = (versions: ResultVersion[], id: string): ResultVersion[] => {
+  const chain: ResultVersion[] = [];
+  let current = versions.find(version => version.id === id);
+  while (current) {
+    chain.unshift(current);
+    const parentId: string | null = current.parentId;
+    current = parentId === null ? undefined : versions.find(version => version.id === parentId);
+  }
+  return chain;
+};
+
+export interface Cooldown {
+  until: number;
+  message: string;
+}
+
+let itemCounter = 0;
+
+const createItem = (file: File): AlbumItem => ({
+  id: `item-${Date.now()}-${itemCounter++}`,
+  file,
+  url: URL.createObjectURL(file),
+  subjects: null,
+  subjectSelection: DEFAULT_SUBJECT_SELECTION,
+  status: 'idle',
+  stage: null,
+  startedAt: null,
+  styleId: null,
+  options: null,
+  skipCacheOnce: false,
+  resultUrl: null,
+  variations: [],
+  selectedVariation: 0,
+  rerollingVariation: null,
+  versions: [],
+  currentVersion: null,
+  pendingRefinement: null,
+  preview: null,
+  error: null,
+  completedAt: null,
+  promptVersion: null,
+  model: null,
+  cutoutSubjects: null,
+  cached: false,
+});
+
+export const useTransformQueue = (concurrency: number = MAX_CONCURRENCY) => {
+  const [items, setItems] = useState<AlbumItem[]>([]);
+  const [cooldown, setCooldown] = useState<Cooldown | null>(null);
+  // One controller per in-flight run. A run may only write its result while its
+  // controller is still the registered one, so a late response can never
+  // overwrite a cancelled item or a newer run of the same photo.
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  const updateItem = useCallback((id: string, patch: Partial<AlbumItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const runItem = useCallback(async (item: AlbumItem, styleId: string, options: TransformOptions, controller: AbortController) => {
+    const isCurrent = () => controllersRef.current.get(item.id) === controller && !controller.signal.aborted;
+    const variationIndex = item.rerollingVariation;
+    const refinement = item.pendingRefinement;
+    const runOptions = variationIndex === null
+      ? { ...options, skipCache: item.skipCacheOnce }
+      : { ...options, variations: 1, skipCache: true };
+
+    try {
+      if (refinement) {
+        const chain = getVersionChain(item.versions, refinement.parentId);
+        const result = await runRefinementPipeline(item.file, styleId, options, {
+          source: chain[chain.length - 1].variation,
+          selection: chain[0].variation.selection,
+          instruction: refinement.instruction,
+          mask: refinement.mask,
+          previousInstructions: chain.flatMap(version => (version.instruction ? [version.instruction] : [])).slice(-MAX_REFINEMENT_HISTORY),
+        }, {
+          onProgress: stage => {
+            if (isCurrent()) updateItem(item.id, { stage });
+          },
+          signal: controller.signal,
+          subjects: item.subjects ?? [],
+          subjectSelection: item.subjectSelection,
+        });
+
+        if (!isCurrent()) return;
+        setItems(prev => prev.map(current => {
+          if (current.id !== item.id) return current;
+          const version: ResultVersion = {
+            id: `${item.id}-version-${current.versions.length}`,
+            parentId: refinement.parentId,
+            instruction: refinement.instruction,
+            masked: Boolean(refinement.mask),
+            variation: result.variation,
+            createdAt: Date.now(),
+          };
+          return {
+            ...current,
+            status: 'done',
+            stage: null,
+            completedAt: version.createdAt,
+            promptVersion: result.promptVersion,
+            model: result.model,
+            versions: [...current.versions, version],
+            currentVersion: version.id,
+            pendingRefinement: null,
+            resultUrl: version.variation.url,
+            cached: false,
+          };
+        }));
+        return;
+      }
+
+      const result = await runTransformPipeline(item.file, styleId, runOptions, {
+        onProgress: stage => {
+          if (isCurrent()) updateItem(item.id, { stage });
+        },
+        // A single re-rolled variation keeps the rest on screen, so it needs no preview.
+        onPreview: variationIndex === null
+          ? preview => {
+            if (isCurrent()) updateItem(item.id, { preview });
+          }
+          : undefined,
+        signal: controller.signal,
+        subjects: item.subjects ?? undefined,
+        subjectSelection: item.subjectSelection,
+      });
+
+      if (!isCurrent()) return;
+      const meta = { status: 'done' as const, skipCacheOnce: false, completedAt: Date.now(), promptVersion: result.promptVersion, model: result.model, subjects: result.subjects, cutoutSubjects: result.cutoutSubjects };
+
+      if (variationIndex === null) {
+        updateItem(item.id, { ...meta, resultUrl: result.variations[0].url, variations: result.variations, selectedVariation: 0, currentVersion: null, cached: result.cached });
+        return;
+      }
+
+      // Swap the fresh image in place; read the latest state so a selection made meanwhile is kept.
+      setItems(prev => prev.map(current => {
+        if (current.id !== item.id) return current;
+        const variations = current.variations.map((variation, index) => (index === variationIndex ? result.variations[0] : variation));
+        return {
+          ...current,
+          ...meta,
+          variations,
+          resultUrl: variations[current.selectedVariation].url,
+          currentVersion: null,
+          rerollingVariation: null,
+          stage: null,
+          cached: false,
+        };
+      }));
+    } catch (error) {
+      if (!isCurrent()) return;
+      if (isRateLimitError(error)) {
+        // Put the photo back in line and pause the whole queue until the server lets us in again.
+        const until = Date.now() + (error.retryAfterSeconds ?? DEFAULT_COOLDOWN_SECONDS) * 1000;
+        setCooldown(prev => (prev && prev.until >= until ? prev : { until, message: error.message }));
+        updateItem(item.id, { status: 'queued', stage: null, startedAt: null });
+        return;
+      }
+      console.error(`Transformation failed for ${item.file.name}:`, error);
+      if (variationIndex !== null || refinement) {
+        // The existing results are still good, so keep showing them.
+        updateItem(item.id, {
+          status: 'done',
+          stage: null,
+          rerollingVariation: null,
+          pendingRefinement: null,
+          error: error instanceof Error ? error.message : 'An unknown error occurred.',
+        });
+        return;
+      }
+      updateItem(item.id, {
+        status: 'failed',
+        skipCacheOnce: false,
+        error: error instanceof Error ? error.message : 'An unknown error occurred.',
+      });
+    } finally {
+      if (controllersRef.current.get(item.id) === controller) {
+        controllersRef.current.delete(item.id);
+      }
+    }
+  }, [updateItem]);
+
+  useEffect(() => {
+    if (!cooldown) return;
+    const timeout = setTimeout(() => setCooldown(null), Math.max(0, cooldown.until - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [cooldown]);
+
+  useEffect(() => {
+    if (cooldown) return;
+
+    const running = items.filter(item => item.status === 'running').length;
+    const next = items
+      .filter(item => item.status === 'queued' && item.styleId && item.options && !controllersRef.current.has(item.id))
+      .slice(0, Math.max(0, concurrency - running));
+
+    if (next.length === 0) return;
+
+    const nextIds = new Set(next.map(item => item.id));
+    setItems(prev => prev.map(item => (nextIds.has(item.id) ? { ...item, status: 'running', stage: null, startedAt: Date.now() } : item)));
+    next.forEach(item => {
+      const controller = new AbortController();
+      controllersRef.current.set(item.id, controller);
+      void runItem(item, item.styleId as string, item.options as TransformOptions, controller);
+    });
+  }, [items, concurrency, runItem, cooldown]);
+
+  const abortAll = useCallback(() => {
+    controllersRef.current.forEach(controller => controller.abort());
+    controllersRef.current.clear();
+  }, []);
+
+  const replaceFiles = useCallback((files: File[]) => {
+    abortAll();
+    const nextItems = files.map(createItem);
+    setItems(prev => {
+      prev.forEach(item => URL.revokeObjectURL(item.url));
+      return nextItems;
+    });
+
+    // Finds people for the crop, the no-person warning and the prompt hints,
+    // one photo at a time so a large folder doesn't decode everything at once.
+    // Only fills in results nobody has set meanwhile (a finished run reports its own).
+    let detection = Promise.resolve();
+    const detect = (id: string, source: Blob) => {
+      detection = detection.then(async () => {
+        const subjects = await detectSubjects(source);
+        setItems(prev => prev.map(item => (item.id === id && item.subjects === null ? { ...item, subjects } : item)));
+      });
+    };
+
+    nextItems.filter(item => !isHeicFile(item.file)).forEach(item => detect(item.id, item.file));
+
+    // Most browsers can't display HEIC in an <img>, so swap in a decoded preview once it's ready.
+    nextItems.filter(item => isHeicFile(item.file)).forEach(item => {
+      decodeHeic(item.file)
+        .then(preview => {
+          URL.revokeObjectURL(item.url);
+          updateItem(item.id, { url: URL.createObjectURL(preview) });
+          detect(item.id, preview);
+        })
+        .catch(error => console.warn(`Could not create a preview for ${item.file.name}:`, error));
+    });
+  }, [abortAll, updateItem]);
+
+  const enqueue = useCallback((styleId: string, options: TransformOptions, ids?: string[]) => {
+    const targets = ids ? new Set(ids) : null;
+    setItems(prev => prev.map(item => {
+      if (item.status === 'running' || (targets && !targets.has(item.id))) return item;
+      return {
+        ...item,
+        status: 'queued',
+        styleId,
+        options,
+        skipCacheOnce: false,
+        resultUrl: null,
+        variations: [],
+        selectedVariation: 0,
+        rerollingVariation: null,
+        versions: [],
+        currentVersion: null,
+        pendingRefinement: null,
+        preview: null,
+        error: null,
+        completedAt: null,
+      };
+    }));
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    setItems(prev => prev.map(item => (
+      item.id === id && item.styleId && (item.status === 'failed' || item.status === 'idle')
+        ? { ...item, status: 'queued', error: null }
+        : item
+    )));
+  }, []);
+
+  // Runs a finished photo again with the same settings, bypassing the server cache.
+  const reroll = useCallback((id: string) => {
+    setItems(prev => prev.map(item => (
+      item.id === id && item.status === 'done' && item.options
+        ? { ...item, status: 'queued', skipCacheOnce: true, preview: null, error: null }
+        : item
+    )));
+  }, []);
+
+  // Regenerates one variation of a finished photo, leaving the others untouched.
+  const rerollVariation = useCallback((id: string, index: number) => {
+    setItems(prev => prev.map(item => (
+      item.id === id && item.status === 'done' && item.options && index < item.variations.length
+        ? { ...item, status: 'queued', rerollingVariation: index, error: null }
+        : item
+    )));
+  }, []);
+
+  // Accepts the local filter's approximation in place of a failed model result.
+  const acceptLocalResult = useCallback((id: string) => {
+    setItems(prev => prev.map(item => (
+      item.id === id && item.status === 'failed' && item.preview
+        ? {
+          ...item,
+          status: 'done',
+          resultUrl: item.preview.url,
+          variations: [item.preview],
+          selectedVariation: 0,
+          error: null,
+          completedAt: Date.now(),
+          promptVersion: null,
+          model: LOCAL_FILTER_MODEL,
+          cached: false,
+        }
+        : item
+    )));
+  }, []);
+
+  const selectVariation = useCallback((id: string, index: number) => {
+    setItems(prev => prev.map(item => (
+      item.id === id && index < item.variations.length
+        ? { ...item, selectedVariation: index, currentVersion: null, resultUrl: item.variations[index].url }
+        : item
+    )));
+  }, []);
+
+  // Queues a follow-up edit of whatever is on screen, optionally limited to a
+  // masked region. The first edit of a variation adds that variation to the
+  // timeline as a root version.
+  const refine = useCallback((id: string, instruction: string, mask?: string) => {
+    setItems(prev => prev.map(item => {
+      if (item.id !== id || item.status !== 'done' || !item.options || item.variations.length === 0) return item;
+      let versions = item.versions;
+      let parentId = item.currentVersion;
+      if (parentId === null) {
+        const variation = item.variations[item.selectedVariation];
+        const existingRoot = versions.find(version => version.parentId === null && version.variation === variation);
+        if (existingRoot) {
+          parentId = existingRoot.id;
+        } else {
+          const root: ResultVersion = { id: `${item.id}-version-${versions.length}`, parentId: null, instruction: null, masked: false, variation, createdAt: item.completedAt ?? Date.now() };
+          versions = [...versions, root];
+          parentId = root.id;
+        }
+      }
+      return { ...item, status: 'queued', versions, pendingRefinement: { parentId, instruction, mask }, error: null };
+    }));
+  }, []);
+
+  const selectVersion = useCallback((id: string, versionId: string) => {
+    setItems(prev => prev.map(item => {
+      const version = item.id === id ? item.versions.find(candidate => candidate.id === versionId) : undefined;
+      return version ? { ...item, currentVersion: version.id, resultUrl: version.variation.url } : item;
+    }));
+  }, []);
+
+  // Cancelled items go back to idle but keep their style, so they can be resumed.
+  // A cancelled re-roll or follow-up edit just returns to the existing results.
+  const cancel = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+    setItems(prev => prev.map(item => {
+      if (item.id !== id || (item.status !== 'queued' && item.status !== 'running')) return item;
+      return item.variations.length > 0
+        ? { ...item, status: 'done', stage: null, rerollingVariation: null, pendingRefinement: null, skipCacheOnce: false }
+        : { ...item, status: 'idle', stage: null, startedAt: null, skipCacheOnce: false };
+    }));
+  }, []);
+
+  // Only photos that aren't being transformed can change who gets cut out.
+  const setSubjectSelection = useCallback((id: string, subjectSelection: SubjectSelection) => {
+    setItems(prev => prev.map(item => (
+      item.id === id && item.status !== 'queued' && item.status !== 'running' ? { ...item, subjectSelection } : item
+    )));
+  }, []);
+
+  const reset = useCallback(() => {
+    abortAll();
+    setItems(prev => {
+      prev.forEach(item => URL.revokeObjectURL(item.url));
+      return [];
+    });
+  }, [abortAll]);
+
+  return { items, cooldown, replaceFiles, enqueue, retry, reroll, rerollVariation, selectVariation, refine, selectVersion, setSubjectSelection, acceptLocalResult, cancel, reset };
+};
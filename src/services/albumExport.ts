@@ -0,0 +1,66 @@
+import type { AlbumItem } from '../hooks/useTransformQueue';
+import { getStyle } from '../shared/styles';
+import type { CutoutSubjects } from '../shared/subjects';
+import { createZip, type ZipEntry } from './zip';
+import { dataUrlToBytes, extensionForMimeType } from './download';
+
+export interface ManifestEntry {
+    sourceFilename: string;
+    original: string;
+    transformed: string;
+    styleId: string;
+    promptVersion: string | null;
+    model: string | null;
+    // Cutout props and the seed that picked them, for reproducing the collage.
+    seed: number | null;
+    props: string[] | null;
+    cutoutSubjects: CutoutSubjects | null;
+    transformedAt: string;
+}
+
+export interface AlbumManifest {
+    generatedAt: string;
+    items: ManifestEntry[];
+}
+
+const stripExtension = (fileName: string): string => fileName.replace(/\.[^./]+$/, '');
+
+const sanitizeFileName = (fileName: string): string => fileName.replace(/[\\/:*?"<>|]+/g, '_');
+
+const mimeTypeFromDataUrl = (dataUrl: string): string => dataUrl.slice(5, dataUrl.indexOf(';'));
+
+export const buildAlbumZip = async (items: AlbumItem[]): Promise<Blob> => {
+    const finished = items.filter(item => item.status === 'done' && item.resultUrl && item.styleId);
+    const entries: ZipEntry[] = [];
+    const manifest: AlbumManifest = { generatedAt: new Date().toISOString(), items: [] };
+
+    for (const [index, item] of finished.entries()) {
+        // Prefix with the position so two photos with the same name never collide.
+        const prefix = String(index + 1).padStart(3, '0');
+        const sourceName = sanitizeFileName(item.file.name);
+        const resultUrl = item.resultUrl as string;
+        const styleId = item.styleId as string;
+        const selection = item.variations[item.selectedVariation]?.selection ?? null;
+        const slug = getStyle(styleId)?.output.fileSlug ?? styleId;
+        const originalPath = `originals/${prefix}-${sourceName}`;
+        const transformedPath = `transformed/${prefix}-${stripExtension(sourceName)}-${slug}.${extensionForMimeType(mimeTypeFromDataUrl(resultUrl))}`;
+
+        entries.push({ name: originalPath, data: new Uint8Array(await item.file.arrayBuffer()) });
+        entries.push({ name: transformedPath, data: dataUrlToBytes(resultUrl) });
+        manifest.items.push({
+            sourceFilename: item.file.name,
+            original: originalPath,
+            transformed: transformedPath,
+            styleId,
+            promptVersion: item.promptVersion,
+            model: item.model,
+            seed: selection?.seed ?? null,
+            props: selection ? selection.objects.map(object => object.id) : null,
+            cutoutSubjects: item.cutoutSubjects,
+            transformedAt: new Date(item.completedAt ?? Date.now()).toISOString(),
+        });
+    }
+
+    entries.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+    return createZip(entries);
+};
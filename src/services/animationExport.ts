@@ -0,0 +1,175 @@
+import { createCanvas, loadImage } from './canvas';
+import { applyPaletteIndices, ditherToWebSafe, WEB_SAFE_PALETTE, type DitherMode } from './dither';
+import { encodeGif, type GifFrame } from './gifEncoder';
+
+export type AnimationKind = 'wipe' | 'flash' | 'slideshow';
+
+export type AnimationFormat = 'gif' | 'webm';
+
+export interface AnimationOptions {
+    kind: AnimationKind;
+    format: AnimationFormat;
+    // Delay of each transition frame; still frames are held HOLD_FRAMES times as long.
+    frameDelayMs: number;
+    // Longest side of the output in pixels.
+    size: number;
+    dither: DitherMode;
+}
+
+export interface AnimationSources {
+    originalUrl: string;
+    resultUrl: string;
+    // Results shown one after another by the slideshow.
+    slideshowUrls: string[];
+}
+
+export const ANIMATION_SIZES = [240, 320, 480, 640] as const;
+
+export const DEFAULT_ANIMATION_OPTIONS: AnimationOptions = {
+    kind: 'wipe',
+    format: 'gif',
+    frameDelayMs: 80,
+    size: 320,
+    dither: 'ordered',
+};
+
+export const HOLD_FRAMES = 12;
+const WIPE_STEPS = 12;
+const FLASH_FADE = [1, 0.75, 0.5, 0.25];
+
+type DrawFrame = (ctx: CanvasRenderingContext2D, width: number, height: number) => void;
+
+interface PlannedFrame {
+    draw: DrawFrame;
+    delayMs: number;
+}
+
+// Letterboxes the image on black, like a photo shown on a CRT slideshow.
+const drawContained = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number) => {
+    const scale = Math.min(width / image.naturalWidth, height / image.naturalHeight);
+    const drawWidth = image.naturalWidth * scale;
+    const drawHeight = image.naturalHeight * scale;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+const still = (image: HTMLImageElement): DrawFrame => (ctx, width, height) => drawContained(ctx, image, width, height);
+
+const planWipe = (before: HTMLImageElement, after: HTMLImageElement, delayMs: number): PlannedFrame[] => {
+    const wipeTo = (position: number): DrawFrame => (ctx, width, height) => {
+        drawContained(ctx, before, width, height);
+        const edge = Math.round(width * position);
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(0, 0, edge, height);
+        ctx.clip();
+        drawContained(ctx, after, width, height);
+        ctx.restore();
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(edge - 1, 0, 2, height);
+    };
+    const steps = Array.from({ length: WIPE_STEPS - 1 }, (_, step) => (step + 1) / WIPE_STEPS);
+
+    return [
+        { draw: still(before), delayMs: delayMs * HOLD_FRAMES },
+        ...steps.map(position => ({ draw: wipeTo(position), delayMs })),
+        { draw: still(after), delayMs: delayMs * HOLD_FRAMES },
+        ...[...steps].reverse().map(position => ({ draw: wipeTo(position), delayMs })),
+    ];
+};
+
+// The camera flash going off: a white frame that fades out to reveal the result.
+const planFlash = (before: HTMLImageElement, after: HTMLImageElement, delayMs: number): PlannedFrame[] => [
+    { draw: still(before), delayMs: delayMs * HOLD_FRAMES },
+    ...FLASH_FADE.map(whiteness => ({
+        draw: ((ctx, width, height) => {
+            drawContained(ctx, after, width, height);
+            ctx.fillStyle = `rgba(255, 255, 255, ${whiteness})`;
+            ctx.fillRect(0, 0, width, height);
+        }) as DrawFrame,
+        delayMs,
+    })),
+    { draw: still(after), delayMs: delayMs * HOLD_FRAMES },
+];
+
+const planSlideshow = (images: HTMLImageElement[], delayMs: number): PlannedFrame[] =>
+    images.map(image => ({ draw: still(image), delayMs: delayMs * HOLD_FRAMES }));
+
+const planFrames = async ({ originalUrl, resultUrl, slideshowUrls }: AnimationSources, { kind, frameDelayMs }: AnimationOptions): Promise<{ frames: PlannedFrame[]; aspect: number }> => {
+    if (kind === 'slideshow') {
+        const images = await Promise.all(slideshowUrls.map(loadImage));
+        return { frames: planSlideshow(images, frameDelayMs), aspect: images[0].naturalWidth / images[0].naturalHeight };
+    }
+    const [before, after] = await Promise.all([loadImage(originalUrl), loadImage(resultUrl)]);
+    const frames = kind === 'wipe' ? planWipe(before, after, frameDelayMs) : planFlash(before, after, frameDelayMs);
+    return { frames, aspect: after.naturalWidth / after.naturalHeight };
+};
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const webmMimeType = (): string | null =>
+    typeof MediaRecorder === 'undefined' ? null : WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+export const isWebmSupported = (): boolean => webmMimeType() !== null;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// MediaRecorder only records in real time, so the animation is played once
+// onto a canvas while it listens.
+const recordWebm = async (canvas: HTMLCanvasElement, frames: ImageData[], delays: number[]): Promise<Blob> => {
+    const mimeType = webmMimeType();
+    if (!mimeType) {
+        throw new Error('This browser cannot record WebM video. Try exporting a GIF instead.');
+    }
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+    const stream = canvas.captureStream();
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+        recorder.onstop = () => resolve();
+    });
+
+    ctx.putImageData(frames[0], 0, 0);
+    recorder.start();
+    for (let i = 0; i < frames.length; i++) {
+        ctx.putImageData(frames[i], 0, 0);
+        await wait(delays[i]);
+    }
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(track => track.stop());
+    return new Blob(chunks, { type: 'video/webm' });
+};
+
+// Renders every frame, dithers it to the web-safe palette and encodes the
+// whole animation in the browser. `onProgress` receives 0-1 while frames render.
+export const exportAnimation = async (sources: AnimationSources, options: AnimationOptions, onProgress?: (fraction: number) => void): Promise<Blob> => {
+    const { frames, aspect } = await planFrames(sources, options);
+    const width = aspect >= 1 ? options.size : Math.round(options.size * aspect);
+    const height = aspect >= 1 ? Math.round(options.size / aspect) : options.size;
+    const { canvas, ctx } = createCanvas(width, height);
+
+    const gifFrames: GifFrame[] = [];
+    const videoFrames: ImageData[] = [];
+
+    frames.forEach(({ draw, delayMs }, index) => {
+        draw(ctx, width, height);
+        const image = ctx.getImageData(0, 0, width, height);
+        const indices = ditherToWebSafe(image, options.dither);
+        if (options.format === 'gif') {
+            gifFrames.push({ indices, delayMs });
+        } else {
+            applyPaletteIndices(image, indices);
+            videoFrames.push(image);
+        }
+        onProgress?.((index + 1) / frames.length);
+    });
+
+    return options.format === 'gif'
+        ? encodeGif(width, height, WEB_SAFE_PALETTE, gifFrames)
+        : recordWebm(canvas, videoFrames, frames.map(frame => frame.delayMs));
+};
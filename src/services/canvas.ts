@@ -0,0 +1,27 @@
+import type { Corner } from '../shared/styles';
+
+export const loadImage = (url: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Failed to load image for compositing.'));
+        image.src = url;
+    });
+};
+
+export const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas 2D context is not available in this browser.');
+    }
+    return { canvas, ctx };
+};
+
+// Top-left position of a box of the given size tucked into a corner with a margin.
+export const cornerOrigin = (corner: Corner, canvasWidth: number, canvasHeight: number, boxWidth: number, boxHeight: number, margin: number): { x: number; y: number } => ({
+    x: corner.endsWith('left') ? margin : canvasWidth - boxWidth - margin,
+    y: corner.startsWith('top') ? margin : canvasHeight - boxHeight - margin,
+});
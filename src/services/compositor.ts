@@ -0,0 +1,33 @@
+import { createCanvas, loadImage } from './canvas';
+import { drawDateStamp, type DateStampSettings } from './dateStamp';
+import { drawWatermark, ensureWatermarkFont, type WatermarkSettings } from './watermark';
+
+export interface CompositeLayers {
+    dateStamp?: { settings: DateStampSettings; date: Date };
+    watermark?: WatermarkSettings;
+}
+
+// Draws the client-side overlays onto the model output. Returns the input
+// untouched when there is nothing to draw so we don't re-encode for no reason.
+export const compositeResult = async (imageUrl: string, layers: CompositeLayers): Promise<string> => {
+    if (!layers.dateStamp && !layers.watermark) return imageUrl;
+
+    const [image] = await Promise.all([
+        loadImage(imageUrl),
+        layers.watermark ? ensureWatermarkFont() : Promise.resolve(),
+    ]);
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    ctx.drawImage(image, 0, 0);
+
+    let dateStampHeight = 0;
+    if (layers.dateStamp) {
+        dateStampHeight = drawDateStamp(ctx, layers.dateStamp.date, layers.dateStamp.settings);
+    }
+
+    if (layers.watermark) {
+        const sharesCorner = layers.dateStamp?.settings.corner === layers.watermark.corner;
+        drawWatermark(ctx, layers.watermark, sharesCorner ? dateStampHeight : 0);
+    }
+
+    return canvas.toDataURL('image/png');
+};
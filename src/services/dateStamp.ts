@@ -0,0 +1,182 @@
+import type { Corner } from '../shared/styles';
+import { cornerOrigin } from './canvas';
+import { readExif } from './exif';
+
+export type DateStampFormat = 'spaced' | 'apostrophe' | 'datetime';
+export type DateStampColor = 'orange' | 'yellow';
+export type DateStampFont = 'seven-segment' | 'mono';
+export type DateStampSource = 'fixed' | 'exif';
+
+export interface DateStampSettings {
+    enabled: boolean;
+    source: DateStampSource;
+    // Local date-time in the `YYYY-MM-DDTHH:MM` form used by datetime-local inputs.
+    fixedDate: string;
+    format: DateStampFormat;
+    color: DateStampColor;
+    corner: Corner;
+    font: DateStampFont;
+}
+
+export const DATE_STAMP_FORMATS: { id: DateStampFormat; label: string }[] = [
+    { id: 'spaced', label: 'YY MM DD' },
+    { id: 'apostrophe', label: "'YY/MM/DD" },
+    { id: 'datetime', label: 'YY MM DD HH:MM' },
+];
+
+export const DATE_STAMP_COLORS: Record<DateStampColor, string> = {
+    orange: '#ff8c1a',
+    yellow: '#ffd400',
+};
+
+export const DEFAULT_DATE_STAMP: DateStampSettings = {
+    enabled: true,
+    source: 'exif',
+    fixedDate: '2004-11-18T22:15',
+    format: 'spaced',
+    color: 'orange',
+    corner: 'bottom-right',
+    font: 'seven-segment',
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const parseLocalDateTime = (value: string): Date | null => {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export const formatDateStamp = (date: Date, format: DateStampFormat): string => {
+    const yy = pad(date.getFullYear() % 100);
+    const mm = pad(date.getMonth() + 1);
+    const dd = pad(date.getDate());
+
+    switch (format) {
+        case 'apostrophe':
+            return `'${yy}/${mm}/${dd}`;
+        case 'datetime':
+            return `${yy} ${mm} ${dd} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+        case 'spaced':
+        default:
+            return `${yy} ${mm} ${dd}`;
+    }
+};
+
+// Seven-segment layout: a top, b top-right, c bottom-right, d bottom, e bottom-left, f top-left, g middle.
+const DIGIT_SEGMENTS: Record<string, string> = {
+    '0': 'abcdef',
+    '1': 'bc',
+    '2': 'abdeg',
+    '3': 'abcdg',
+    '4': 'bcfg',
+    '5': 'acdfg',
+    '6': 'acdefg',
+    '7': 'abc',
+    '8': 'abcdefg',
+    '9': 'abcdfg',
+};
+
+const drawSegments = (ctx: CanvasRenderingContext2D, segments: string, x: number, y: number, width: number, height: number) => {
+    const t = height * 0.12;
+    const gap = t * 0.15;
+    const half = (height - t) / 2;
+    const vertical = (height - 3 * t) / 2;
+    const rects: Record<string, [number, number, number, number]> = {
+        a: [x + t, y, width - 2 * t, t],
+        g: [x + t, y + half, width - 2 * t, t],
+        d: [x + t, y + height - t, width - 2 * t, t],
+        f: [x, y + t, t, vertical],
+        b: [x + width - t, y + t, t, vertical],
+        e: [x, y + half + t, t, vertical],
+        c: [x + width - t, y + half + t, t, vertical],
+    };
+    for (const segment of segments) {
+        const [sx, sy, sw, sh] = rects[segment];
+        ctx.fillRect(sx + gap, sy + gap, sw - 2 * gap, sh - 2 * gap);
+    }
+};
+
+const measureSevenSegment = (text: string, height: number): number => {
+    const digitWidth = height * 0.55;
+    const spacing = height * 0.22;
+    let width = 0;
+    for (const char of text) {
+        width += (DIGIT_SEGMENTS[char] ? digitWidth : char === ' ' ? digitWidth * 0.5 : height * 0.25) + spacing;
+    }
+    return width - spacing;
+};
+
+const drawSevenSegment = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, height: number) => {
+    const digitWidth = height * 0.55;
+    const spacing = height * 0.22;
+    const t = height * 0.12;
+    let cursor = x;
+
+    for (const char of text) {
+        if (DIGIT_SEGMENTS[char]) {
+            drawSegments(ctx, DIGIT_SEGMENTS[char], cursor, y, digitWidth, height);
+            cursor += digitWidth + spacing;
+        } else if (char === ' ') {
+            cursor += digitWidth * 0.5 + spacing;
+        } else {
+            const glyphWidth = height * 0.25;
+            if (char === ':') {
+                ctx.fillRect(cursor + (glyphWidth - t) / 2, y + height * 0.25, t, t);
+                ctx.fillRect(cursor + (glyphWidth - t) / 2, y + height * 0.65, t, t);
+            } else if (char === '/') {
+                ctx.beginPath();
+                ctx.moveTo(cursor + glyphWidth - t, y);
+                ctx.lineTo(cursor + glyphWidth, y);
+                ctx.lineTo(cursor + t, y + height);
+                ctx.lineTo(cursor, y + height);
+                ctx.closePath();
+                ctx.fill();
+            } else if (char === "'") {
+                ctx.fillRect(cursor + (glyphWidth - t) / 2, y, t, height * 0.3);
+            }
+            cursor += glyphWidth + spacing;
+        }
+    }
+};
+
+// Draws the stamp onto an already painted canvas, sized relative to the image
+// like a real camera would. Returns the vertical space it took up in its corner.
+export const drawDateStamp = (ctx: CanvasRenderingContext2D, date: Date, settings: DateStampSettings): number => {
+    const { width, height } = ctx.canvas;
+    const text = formatDateStamp(date, settings.format);
+    const glyphHeight = Math.max(12, Math.round(Math.min(width, height) * 0.045));
+    const margin = glyphHeight;
+    const color = DATE_STAMP_COLORS[settings.color];
+
+    ctx.save();
+    ctx.fillStyle = color;
+    ctx.shadowColor = color;
+    ctx.shadowBlur = glyphHeight * 0.3;
+
+    if (settings.font === 'seven-segment') {
+        const textWidth = measureSevenSegment(text, glyphHeight);
+        const { x, y } = cornerOrigin(settings.corner, width, height, textWidth, glyphHeight, margin);
+        // Slight italic slant like the LCD digits on point-and-shoot cameras.
+        ctx.translate(x + glyphHeight * 0.08, y);
+        ctx.transform(1, 0, -0.08, 1, 0, 0);
+        drawSevenSegment(ctx, text, 0, 0, glyphHeight);
+    } else {
+        ctx.font = `bold ${glyphHeight * 1.3}px "Courier New", monospace`;
+        ctx.textBaseline = 'top';
+        const textWidth = ctx.measureText(text).width;
+        const { x, y } = cornerOrigin(settings.corner, width, height, textWidth, glyphHeight * 1.3, margin);
+        ctx.fillText(text, x, y);
+    }
+    ctx.restore();
+
+    return glyphHeight * 1.3 + margin * 0.5;
+};
+
+// Uses the photo's capture date when asked to and available, otherwise the fixed date.
+export const resolveStampDate = async (file: File, settings: DateStampSettings): Promise<Date> => {
+    if (settings.source === 'exif') {
+        const { capturedAt } = await readExif(file);
+        if (capturedAt) return capturedAt;
+    }
+    return parseLocalDateTime(settings.fixedDate) ?? new Date();
+};
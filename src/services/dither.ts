@@ -0,0 +1,87 @@
+// Quantises frames to the 216-colour "web-safe" palette every browser of the
+// era could show without its own dithering, using the same two dithers that
+// period GIF tools offered.
+
+export type DitherMode = 'ordered' | 'diffusion';
+
+const LEVEL_STEP = 51;
+
+// 6x6x6 colour cube; the last 40 of the 256 GIF palette slots stay black and unused.
+export const WEB_SAFE_PALETTE = (() => {
+    const palette = new Uint8Array(256 * 3);
+    for (let index = 0; index < 216; index++) {
+        palette[index * 3] = Math.floor(index / 36) * LEVEL_STEP;
+        palette[index * 3 + 1] = (Math.floor(index / 6) % 6) * LEVEL_STEP;
+        palette[index * 3 + 2] = (index % 6) * LEVEL_STEP;
+    }
+    return palette;
+})();
+
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+const toLevel = (value: number): number => Math.min(5, Math.max(0, Math.round(value / LEVEL_STEP)));
+
+const orderedDither = (pixels: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+    const indices = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const pixel = y * width + x;
+            const offset = pixel * 4;
+            const threshold = ((BAYER_4X4[(y & 3) * 4 + (x & 3)] + 0.5) / 16 - 0.5) * LEVEL_STEP;
+            indices[pixel] = toLevel(pixels[offset] + threshold) * 36
+                + toLevel(pixels[offset + 1] + threshold) * 6
+                + toLevel(pixels[offset + 2] + threshold);
+        }
+    }
+    return indices;
+};
+
+// Floyd-Steinberg error diffusion, scanning every row left to right.
+const diffusionDither = (pixels: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+    const indices = new Uint8Array(width * height);
+    const working = new Float32Array(width * height * 3);
+    for (let pixel = 0; pixel < width * height; pixel++) {
+        working[pixel * 3] = pixels[pixel * 4];
+        working[pixel * 3 + 1] = pixels[pixel * 4 + 1];
+        working[pixel * 3 + 2] = pixels[pixel * 4 + 2];
+    }
+
+    const spread = (x: number, y: number, channel: number, error: number) => {
+        if (x < 0 || x >= width || y >= height) return;
+        working[(y * width + x) * 3 + channel] += error;
+    };
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const pixel = y * width + x;
+            let index = 0;
+            for (let channel = 0; channel < 3; channel++) {
+                const value = working[pixel * 3 + channel];
+                const level = toLevel(value);
+                const error = value - level * LEVEL_STEP;
+                index = index * 6 + level;
+                spread(x + 1, y, channel, error * 7 / 16);
+                spread(x - 1, y + 1, channel, error * 3 / 16);
+                spread(x, y + 1, channel, error * 5 / 16);
+                spread(x + 1, y + 1, channel, error / 16);
+            }
+            indices[pixel] = index;
+        }
+    }
+    return indices;
+};
+
+export const ditherToWebSafe = (image: ImageData, mode: DitherMode): Uint8Array => mode === 'ordered'
+    ? orderedDither(image.data, image.width, image.height)
+    : diffusionDither(image.data, image.width, image.height);
+
+// Writes palette colours back over `image`, e.g. to show or record the dithered frame.
+export const applyPaletteIndices = (image: ImageData, indices: Uint8Array) => {
+    for (let pixel = 0; pixel < indices.length; pixel++) {
+        const colour = indices[pixel] * 3;
+        image.data[pixel * 4] = WEB_SAFE_PALETTE[colour];
+        image.data[pixel * 4 + 1] = WEB_SAFE_PALETTE[colour + 1];
+        image.data[pixel * 4 + 2] = WEB_SAFE_PALETTE[colour + 2];
+        image.data[pixel * 4 + 3] = 255;
+    }
+};
@@ -0,0 +1,30 @@
+export const triggerDownload = (href: string, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = href;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    triggerDownload(url, fileName);
+    // Give the browser a moment to start the download before releasing the blob.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+    const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+export const extensionForMimeType = (mimeType: string): string => {
+    const subtype = mimeType.split('/')[1] ?? 'png';
+    return subtype === 'jpeg' ? 'jpg' : subtype;
+};
@@ -0,0 +1,44 @@
+export interface StreamEvent {
+    event: string;
+    data: string;
+}
+
+// Reads a `text/event-stream` response body, calling `onEvent` for every complete event.
+export const readEventStream = async (response: Response, onEvent: (event: StreamEvent) => void): Promise<void> => {
+    if (!response.body) {
+        throw new Error('The server did not send a progress stream.');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const flush = (block: string) => {
+        let event = 'message';
+        const dataLines: string[] = [];
+        for (const line of block.split('\n')) {
+            if (line.startsWith('event:')) event = line.slice(6).trim();
+            else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+        }
+        if (dataLines.length > 0) {
+            onEvent({ event, data: dataLines.join('\n') });
+        }
+    };
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+            flush(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf('\n\n');
+        }
+    }
+
+    if (buffer.trim()) {
+        flush(buffer);
+    }
+};
@@ -0,0 +1,93 @@
+// Just enough of an EXIF reader to pull the capture date out of a JPEG without
+// pulling in a full metadata library. Orientation is left to the browser, which
+// applies it while decoding (see preprocess).
+
+export interface ExifData {
+    capturedAt?: Date;
+}
+
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+// EXIF lives in the first APP1 segment, which is always near the start of the file.
+const EXIF_SCAN_BYTES = 256 * 1024;
+
+const parseExifDate = (value: string): Date | undefined => {
+    const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+    if (!match) return undefined;
+    const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+    const date = new Date(year, month - 1, day, hours, minutes, seconds);
+    return Number.isNaN(date.getTime()) || year === 0 ? undefined : date;
+};
+
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, littleEndian: boolean): Map<number, number | string> => {
+    const tags = new Map<number, number | string>();
+    const start = tiffStart + ifdOffset;
+    if (start + 2 > view.byteLength) return tags;
+
+    const count = view.getUint16(start, littleEndian);
+    for (let i = 0; i < count; i++) {
+        const entry = start + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+
+        const tag = view.getUint16(entry, littleEndian);
+        const type = view.getUint16(entry + 2, littleEndian);
+        const length = view.getUint32(entry + 4, littleEndian);
+
+        if (type === 3) {
+            tags.set(tag, view.getUint16(entry + 8, littleEndian));
+        } else if (type === 4) {
+            tags.set(tag, view.getUint32(entry + 8, littleEndian));
+        } else if (type === 2) {
+            const valueStart = length > 4 ? tiffStart + view.getUint32(entry + 8, littleEndian) : entry + 8;
+            if (valueStart + length > view.byteLength) continue;
+            let text = '';
+            for (let j = 0; j < length - 1; j++) {
+                text += String.fromCharCode(view.getUint8(valueStart + j));
+            }
+            tags.set(tag, text);
+        }
+    }
+    return tags;
+};
+
+export const parseExif = (buffer: ArrayBuffer): ExifData => {
+    const view = new DataView(buffer);
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return {};
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        const segmentLength = view.getUint16(offset + 2);
+
+        // "Exif\0\0" header inside APP1
+        if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+            const tiffStart = offset + 10;
+            const littleEndian = view.getUint16(tiffStart) === 0x4949;
+            const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, littleEndian), littleEndian);
+            const exifPointer = ifd0.get(TAG_EXIF_IFD);
+            const exifIfd = typeof exifPointer === 'number' ? readIfd(view, tiffStart, exifPointer, littleEndian) : new Map();
+
+            const dateText = exifIfd.get(TAG_DATE_TIME_ORIGINAL) ?? ifd0.get(TAG_DATE_TIME);
+
+            return { capturedAt: typeof dateText === 'string' ? parseExifDate(dateText) : undefined };
+        }
+
+        // Start of scan: no metadata beyond this point.
+        if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+        offset += 2 + segmentLength;
+    }
+
+    return {};
+};
+
+export const readExif = async (file: File): Promise<ExifData> => {
+    if (file.type !== 'image/jpeg') return {};
+    try {
+        return parseExif(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+    } catch (error) {
+        console.warn(`Could not read EXIF data from ${file.name}:`, error);
+        return {};
+    }
+};
@@ -1,38 +1,151 @@
+import type { PromptOptions } from '../shared/styles';
+import { isTransformStage, type TransformStage } from '../shared/progress';
+import type { TransformErrorCode } from '../shared/errors';
+import type { ObjectSelection } from '../shared/cutoutObjects';
+import type { RefinementRequest } from '../shared/refinement';
+import type { CutoutSubjects } from '../shared/subjects';
+import { readEventStream } from './eventStream';
+import { getSessionToken } from './session';
 
-import type { TransformStyle } from '../App';
+export interface TransformedImage {
+    data: string;
+    mimeType: string;
+}
 
-export const transformImage = async (base64ImageData: string, mimeType: string, style: TransformStyle): Promise<string | null> => {
+export interface TransformResult {
+    // One entry per variation; the server may return fewer than were asked for.
+    images: TransformedImage[];
+    styleId: string;
+    promptVersion: string;
+    model: string;
+    // Props picked for the cutout style; null for styles without them.
+    selection: ObjectSelection | null;
+    // How many people the cutout style was asked to cut out; null for other styles.
+    cutoutSubjects: CutoutSubjects | null;
+    cached: boolean;
+}
+
+export type ProgressCallback = (stage: TransformStage) => void;
+
+export interface TransformRequestOptions {
+    promptOptions?: PromptOptions;
+    // Ask the server for a fresh result even if it has one cached (re-roll).
+    skipCache?: boolean;
+    variations?: number;
+    // Follow-up edit of an earlier result, which is then the uploaded image.
+    refinement?: RefinementRequest;
+    onProgress?: ProgressCallback;
+    signal?: AbortSignal;
+}
+
+// Friendlier wording for failures the user can do something about. Anything
+// not listed falls back to the server's own message.
+const ERROR_MESSAGES: Partial<Record<TransformErrorCode, string>> = {
+    invalid_json: "The photo didn't upload correctly. Please try again.",
+    missing_fields: "The photo didn't upload correctly. Please try again.",
+    invalid_base64: "The photo got garbled on the way to the server. Please try again.",
+    unknown_style: "That style isn't available any more. Please pick another one.",
+    invalid_variations: "That number of variations isn't supported. Please pick between one and four.",
+    invalid_prompt_options: "Some Advanced settings were rejected. Check them or reset to the defaults and try again.",
+    invalid_refinement: "That edit instruction was rejected. Keep it to one short line and try again.",
+    invalid_mask: "The painted region couldn't be used. Clear it, paint it again and retry.",
+    payload_too_large: "This photo is too large to upload. Lower the size or quality under Upload Quality and try again.",
+    dimensions_too_large: "This photo has too many pixels. Lower the maximum size under Upload Quality and try again.",
+    unsupported_media_type: "That file type isn't supported. Please use a PNG, JPEG, WebP or HEIC photo.",
+    type_mismatch: "This file's contents don't match its type; it may have been renamed or be corrupt. Try re-saving the photo.",
+    rate_limited: "Whoa, slow down! The flash needs a moment to recharge.",
+    quota_exceeded: "You've used up today's transformations. The counter resets at midnight UTC.",
+};
+
+export const isRateLimitError = (error: unknown): error is TransformError =>
+    error instanceof TransformError && (error.code === 'rate_limited' || error.code === 'quota_exceeded');
+
+export class TransformError extends Error {
+    constructor(
+        message: string,
+        public readonly code: TransformErrorCode | null,
+        public readonly status: number,
+        public readonly retryAfterSeconds: number | null = null,
+    ) {
+        super(message);
+        this.name = 'TransformError';
+    }
+}
+
+interface ServerResponse {
+    statusCode: number;
+    body: Partial<TransformResult> & { error?: string; code?: TransformErrorCode; retryAfterSeconds?: number };
+    retryAfterSeconds?: number;
+}
+
+// Asks for server-sent progress events, but still copes with a plain JSON
+// reply (e.g. configuration errors raised before the stream starts).
+const readServerResponse = async (response: Response, onProgress?: ProgressCallback): Promise<ServerResponse> => {
+    if (!response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        const body = await response.json().catch(() => ({ error: 'Failed to process the transformation on the server.' }));
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        return { statusCode: response.status, body, retryAfterSeconds: retryAfter > 0 ? retryAfter : undefined };
+    }
+
+    let result: ServerResponse | null = null;
+    await readEventStream(response, ({ event, data }) => {
+        const payload = JSON.parse(data);
+        if (event === 'progress' && isTransformStage(payload.stage)) {
+            onProgress?.(payload.stage);
+        } else if (event === 'result') {
+            result = payload as ServerResponse;
+        }
+    });
+
+    if (!result) {
+        throw new Error('The server closed the connection before sending a result.');
+    }
+    return result;
+};
+
+export const transformImage = async (base64ImageData: string, mimeType: string, style: string, { promptOptions, skipCache = false, variations = 1, refinement, onProgress, signal }: TransformRequestOptions = {}): Promise<TransformResult | null> => {
     try {
         const response = await fetch('/.netlify/functions/transform-image', {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
+                'Accept': 'text/event-stream, application/json',
+                'X-Session-Token': getSessionToken(),
             },
             body: JSON.stringify({
                 base64ImageData,
                 mimeType,
                 style,
+                promptOptions,
+                skipCache,
+                variations,
+                refinement,
             }),
+            signal,
         });
 
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ error: 'Failed to process the transformation on the server.' }));
-            throw new Error(errorData.error || `Server responded with status: ${response.status}`);
-        }
+        const { statusCode, body: result, retryAfterSeconds } = await readServerResponse(response, onProgress);
 
-        const result = await response.json();
+        if (statusCode < 200 || statusCode >= 300) {
+            const message = (result.code && ERROR_MESSAGES[result.code]) || result.error || `Server responded with status: ${statusCode}`;
+            throw new TransformError(message, result.code ?? null, statusCode, retryAfterSeconds ?? result.retryAfterSeconds ?? null);
+        }
         
-        if (result.transformedBase64) {
-            return result.transformedBase64;
+        if (result.images && result.images.length > 0) {
+            return result as TransformResult;
         }
 
         return null;
 
     } catch (error) {
+        // Cancellation is not a failure; let callers recognise it as such.
+        if (signal?.aborted || error instanceof TransformError) {
+            throw error;
+        }
         console.error("Error calling transformation service:", error);
         if (error instanceof Error) {
              throw new Error(error.message);
         }
         throw new Error("An unknown error occurred during image transformation.");
     }
-};
\ No newline at end of file
+};
@@ -0,0 +1,144 @@
+// Minimal animated GIF89a writer: one global 256-colour palette, full-frame
+// images and an infinite NETSCAPE loop. Frames arrive already quantised to
+// palette indices, so all this does is LZW-pack them.
+
+export interface GifFrame {
+    // One palette index per pixel, row by row.
+    indices: Uint8Array;
+    delayMs: number;
+}
+
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4096;
+
+// Growable byte buffer, doubling as needed.
+class ByteWriter {
+    private bytes = new Uint8Array(64 * 1024);
+    private length = 0;
+
+    byte(value: number) {
+        if (this.length === this.bytes.length) {
+            const grown = new Uint8Array(this.bytes.length * 2);
+            grown.set(this.bytes);
+            this.bytes = grown;
+        }
+        this.bytes[this.length++] = value;
+    }
+
+    word(value: number) {
+        this.byte(value & 0xff);
+        this.byte((value >> 8) & 0xff);
+    }
+
+    write(values: ArrayLike<number>) {
+        for (let i = 0; i < values.length; i++) {
+            this.byte(values[i]);
+        }
+    }
+
+    result() {
+        return this.bytes.slice(0, this.length);
+    }
+}
+
+// Packs variable-width codes LSB-first into 255-byte data sub-blocks.
+const writeLzwData = (out: ByteWriter, indices: Uint8Array) => {
+    const clearCode = 1 << MIN_CODE_SIZE;
+    const endCode = clearCode + 1;
+    const table = new Map<number, number>();
+    let nextCode = endCode + 1;
+    let codeSize = MIN_CODE_SIZE + 1;
+
+    const block: number[] = [];
+    let bitBuffer = 0;
+    let bitCount = 0;
+
+    const flushBlock = () => {
+        out.byte(block.length);
+        out.write(block);
+        block.length = 0;
+    };
+
+    const emit = (code: number) => {
+        bitBuffer |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            block.push(bitBuffer & 0xff);
+            bitBuffer >>>= 8;
+            bitCount -= 8;
+            if (block.length === 255) flushBlock();
+        }
+    };
+
+    out.byte(MIN_CODE_SIZE);
+    emit(clearCode);
+
+    let current = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const next = indices[i];
+        const key = (current << 8) | next;
+        const existing = table.get(key);
+        if (existing !== undefined) {
+            current = existing;
+            continue;
+        }
+
+        emit(current);
+        if (nextCode === MAX_CODE) {
+            // Table full: start over rather than switching to a fixed dictionary.
+            emit(clearCode);
+            table.clear();
+            nextCode = endCode + 1;
+            codeSize = MIN_CODE_SIZE + 1;
+        } else {
+            if (nextCode >= 1 << codeSize) codeSize++;
+            table.set(key, nextCode++);
+        }
+        current = next;
+    }
+
+    emit(current);
+    emit(endCode);
+    if (bitCount > 0) {
+        block.push(bitBuffer & 0xff);
+        if (block.length === 255) flushBlock();
+    }
+    if (block.length > 0) flushBlock();
+    out.byte(0);
+};
+
+// `palette` holds 256 RGB triples.
+export const encodeGif = (width: number, height: number, palette: Uint8Array, frames: GifFrame[]): Blob => {
+    const out = new ByteWriter();
+
+    out.write([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // "GIF89a"
+    out.word(width);
+    out.word(height);
+    out.byte(0xf7); // Global colour table, 8 bits per channel, 256 entries
+    out.byte(0);
+    out.byte(0);
+    out.write(palette);
+
+    // NETSCAPE2.0 application extension: loop forever.
+    out.write([0x21, 0xff, 0x0b]);
+    out.write([0x4e, 0x45, 0x54, 0x53, 0x43, 0x41, 0x50, 0x45, 0x32, 0x2e, 0x30]);
+    out.write([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+    for (const frame of frames) {
+        // Graphic control extension: leave the frame in place, delay in centiseconds.
+        out.write([0x21, 0xf9, 0x04, 0x04]);
+        out.word(Math.max(2, Math.round(frame.delayMs / 10)));
+        out.write([0x00, 0x00]);
+
+        out.byte(0x2c);
+        out.word(0);
+        out.word(0);
+        out.word(width);
+        out.word(height);
+        out.byte(0);
+        writeLzwData(out, frame.indices);
+    }
+
+    out.byte(0x3b);
+    return new Blob([out.result()], { type: 'image/gif' });
+};
@@ -0,0 +1,139 @@
+import { createCanvas, loadImage } from './canvas';
+import { dataUrlToBytes } from './download';
+import type { ObjectSelection } from '../shared/cutoutObjects';
+
+// Every finished transformation is kept in IndexedDB so it survives "Start
+// Over" and reloads. Oldest entries are evicted once either limit is hit.
+
+export interface HistoryEntry {
+    id: string;
+    createdAt: number;
+    styleId: string;
+    promptVersion: string | null;
+    model: string | null;
+    selection: ObjectSelection | null;
+    sourceName: string;
+    source: Blob;
+    result: Blob;
+    thumbnail: Blob;
+}
+
+export interface HistoryUsage {
+    entries: number;
+    bytes: number;
+    // What the browser reports for the whole origin, when it supports it.
+    quota: number | null;
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+export const MAX_HISTORY_BYTES = 250 * 1024 * 1024;
+
+const DB_NAME = 'flashback-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const THUMBNAIL_EDGE = 256;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                store.createIndex('createdAt', 'createdAt');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error ?? new Error('Could not open the history database.'));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return requestToPromise(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+};
+
+const entrySize = (entry: HistoryEntry): number => entry.source.size + entry.result.size + entry.thumbnail.size;
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+    const mimeType = dataUrl.slice(5, dataUrl.indexOf(';'));
+    return new Blob([new Uint8Array(dataUrlToBytes(dataUrl))], { type: mimeType });
+};
+
+const createThumbnail = async (imageUrl: string): Promise<Blob> => {
+    const image = await loadImage(imageUrl);
+    const scale = Math.min(1, THUMBNAIL_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+    const { canvas, ctx } = createCanvas(Math.round(image.naturalWidth * scale), Math.round(image.naturalHeight * scale));
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not create a thumbnail.'))), 'image/jpeg', 0.8);
+    });
+};
+
+// Newest first.
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+    const entries = await withStore('readonly', store => store.getAll() as IDBRequest<HistoryEntry[]>);
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteHistoryEntry = (id: string): Promise<undefined> => withStore('readwrite', store => store.delete(id));
+
+export const clearHistory = (): Promise<undefined> => withStore('readwrite', store => store.clear());
+
+// Drops the oldest entries until both the count and size limits are met.
+export const enforceHistoryLimits = async (): Promise<void> => {
+    const entries = await listHistory();
+    let bytes = entries.reduce((total, entry) => total + entrySize(entry), 0);
+    let count = entries.length;
+
+    for (const entry of [...entries].reverse()) {
+        if (count <= MAX_HISTORY_ENTRIES && bytes <= MAX_HISTORY_BYTES) break;
+        await deleteHistoryEntry(entry.id);
+        bytes -= entrySize(entry);
+        count -= 1;
+    }
+};
+
+export interface NewHistoryEntry {
+    styleId: string;
+    promptVersion: string | null;
+    model: string | null;
+    selection: ObjectSelection | null;
+    source: File;
+    resultUrl: string;
+    createdAt?: number;
+}
+
+export const addHistoryEntry = async ({ source, resultUrl, createdAt = Date.now(), ...details }: NewHistoryEntry): Promise<HistoryEntry> => {
+    const entry: HistoryEntry = {
+        ...details,
+        id: `history-${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+        createdAt,
+        sourceName: source.name,
+        source,
+        result: dataUrlToBlob(resultUrl),
+        thumbnail: await createThumbnail(resultUrl),
+    };
+    await withStore('readwrite', store => store.put(entry));
+    await enforceHistoryLimits();
+    return entry;
+};
+
+export const getHistoryUsage = async (entries: HistoryEntry[]): Promise<HistoryUsage> => {
+    const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+    return {
+        entries: entries.length,
+        bytes: entries.reduce((total, entry) => total + entrySize(entry), 0),
+        quota: estimate?.quota ?? null,
+    };
+};
@@ -0,0 +1,57 @@
+export const fileToBase64 = (file: Blob): Promise<{ base64: string; mimeType: string }> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => {
+      const result = reader.result as string;
+      const [mimePart, base64Part] = result.split(',');
+      if (!mimePart || !base64Part) {
+        reject(new Error('Invalid file format'));
+        return;
+      }
+      const mimeType = mimePart.split(':')[1].split(';')[0];
+      resolve({ base64: base64Part, mimeType });
+    };
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+// Browsers often report an empty type for HEIC/HEIF, so fall back to the extension.
+export const isHeicFile = (file: File): boolean =>
+  /^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+export const isImageFile = (file: File): boolean => file.type.startsWith('image/') || isHeicFile(file);
+
+export const ACCEPTED_IMAGE_TYPES = 'image/png, image/jpeg, image/webp, image/heic, image/heif, .heic, .heif';
+
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(file => resolve([file]), reject));
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const readBatch = (): Promise<FileSystemEntry[]> => new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+    const children: FileSystemEntry[] = [];
+    // readEntries hands back directory contents in chunks until it returns an empty list.
+    for (let batch = await readBatch(); batch.length > 0; batch = await readBatch()) {
+      children.push(...batch);
+    }
+    const nested = await Promise.all(children.map(readEntryFiles));
+    return nested.flat();
+  }
+  return [];
+};
+
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  const files = entries.length > 0
+    ? (await Promise.all(entries.map(readEntryFiles))).flat()
+    : Array.from(dataTransfer.files);
+
+  return files
+    .filter(isImageFile)
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+};
@@ -0,0 +1,144 @@
+import { createCanvas, loadImage } from './canvas';
+import { createRandom } from '../shared/random';
+import { subjectFocus, type SubjectBox } from '../shared/subjects';
+import type { ColorCast, FlashIntensity, NoiseLevel, PromptSettings } from '../shared/promptSettings';
+
+// Deterministic, model-free approximation of the lofi look. It runs in the
+// browser in well under a second, so it doubles as an instant preview while
+// the model works and as a fallback when the model refuses a photo.
+
+export interface LofiFilterParams {
+    // Extra brightness at the centre of the frame, fading out towards the edges.
+    flash: number;
+    // Where the flash is aimed, as fractions of the frame; the people in it when known.
+    flashCentre: { x: number; y: number };
+    // Darkening at the corners, 0 for none.
+    vignette: number;
+    saturation: number;
+    // RGB offset applied in full to pure black and fading out towards white.
+    shadowTint: [number, number, number];
+    // Amplitude of the sensor noise in 0-255 units.
+    noise: number;
+    // How much of a 3x3 box blur is mixed in, 0-1.
+    softness: number;
+    // Quality of the final JPEG re-encode; lower means blockier artefacts.
+    jpegQuality: number;
+}
+
+const FLASH_GAIN: Record<FlashIntensity, number> = { soft: 0.08, direct: 0.18, harsh: 0.32 };
+
+const VIGNETTE_STRENGTH: Record<FlashIntensity, number> = { soft: 0.3, direct: 0.45, harsh: 0.6 };
+
+const SHADOW_TINTS: Record<ColorCast, [number, number, number]> = {
+    cool: [-6, 4, 24],
+    magenta: [20, -10, 22],
+    warm: [26, 10, -20],
+    neutral: [0, 0, 0],
+};
+
+const NOISE_AMPLITUDE: Record<NoiseLevel, number> = { none: 0, light: 6, moderate: 12, heavy: 22 };
+
+// Fixed so the same photo and settings always give the same pixels.
+const NOISE_SEED = 2002;
+
+// Maps the same structured controls the prompt uses onto filter strengths.
+export const lofiParamsFromSettings = (settings: PromptSettings, subjects: SubjectBox[] = []): LofiFilterParams => ({
+    flash: FLASH_GAIN[settings.flash],
+    flashCentre: subjectFocus(subjects) ?? { x: 0.5, y: 0.5 },
+    vignette: settings.vignette ? VIGNETTE_STRENGTH[settings.flash] : 0,
+    saturation: settings.colorCast === 'neutral' ? 1.1 : 1.2,
+    shadowTint: SHADOW_TINTS[settings.colorCast],
+    noise: NOISE_AMPLITUDE[settings.noise],
+    softness: 0.6,
+    jpegQuality: settings.noise === 'heavy' ? 0.4 : 0.5,
+});
+
+const boxBlur = (source: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+    const result = new Uint8ClampedArray(source.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, count = 0;
+            for (let dy = -1; dy <= 1; dy++) {
+                const sy = y + dy;
+                if (sy < 0 || sy >= height) continue;
+                for (let dx = -1; dx <= 1; dx++) {
+                    const sx = x + dx;
+                    if (sx < 0 || sx >= width) continue;
+                    const offset = (sy * width + sx) * 4;
+                    r += source[offset];
+                    g += source[offset + 1];
+                    b += source[offset + 2];
+                    count++;
+                }
+            }
+            const offset = (y * width + x) * 4;
+            result[offset] = r / count;
+            result[offset + 1] = g / count;
+            result[offset + 2] = b / count;
+            result[offset + 3] = source[offset + 3];
+        }
+    }
+    return result;
+};
+
+export const applyLofiFilter = async (imageUrl: string, params: LofiFilterParams): Promise<string> => {
+    const image = await loadImage(imageUrl);
+    const width = image.naturalWidth;
+    const height = image.naturalHeight;
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(image, 0, 0);
+
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const pixels = imageData.data;
+    const blurred = params.softness > 0 ? boxBlur(pixels, width, height) : pixels;
+    const random = createRandom(NOISE_SEED);
+    const [tintR, tintG, tintB] = params.shadowTint;
+    const centreX = width / 2;
+    const centreY = height / 2;
+    const flashX = params.flashCentre.x * width;
+    const flashY = params.flashCentre.y * height;
+
+    for (let y = 0; y < height; y++) {
+        const dy = (y - centreY) / centreY;
+        const flashDy = (y - flashY) / centreY;
+        for (let x = 0; x < width; x++) {
+            const offset = (y * width + x) * 4;
+            const dx = (x - centreX) / centreX;
+            const flashDx = (x - flashX) / centreX;
+            // 0 at the centre, 1 in the corners.
+            const distance = (dx * dx + dy * dy) / 2;
+            const flashDistance = Math.min(1, (flashDx * flashDx + flashDy * flashDy) / 2);
+            const gain = (1 + params.flash * (1 - flashDistance)) * (1 - params.vignette * distance);
+
+            let r = (pixels[offset] + (blurred[offset] - pixels[offset]) * params.softness) * gain;
+            let g = (pixels[offset + 1] + (blurred[offset + 1] - pixels[offset + 1]) * params.softness) * gain;
+            let b = (pixels[offset + 2] + (blurred[offset + 2] - pixels[offset + 2]) * params.softness) * gain;
+
+            const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+            r = luma + (r - luma) * params.saturation;
+            g = luma + (g - luma) * params.saturation;
+            b = luma + (b - luma) * params.saturation;
+
+            const shadow = Math.max(0, 1 - luma / 255) ** 2;
+            r += tintR * shadow;
+            g += tintG * shadow;
+            b += tintB * shadow;
+
+            if (params.noise > 0) {
+                // Mostly luminance grain with a little chroma, like a cheap CCD.
+                const grain = (random() + random() + random() - 1.5) * params.noise;
+                r += grain + (random() - 0.5) * params.noise * 0.3;
+                g += grain;
+                b += grain + (random() - 0.5) * params.noise * 0.3;
+            }
+
+            pixels[offset] = r;
+            pixels[offset + 1] = g;
+            pixels[offset + 2] = b;
+        }
+    }
+
+    ctx.putImageData(imageData, 0, 0);
+    // The low-quality JPEG encode supplies the blocky compression artefacts.
+    return canvas.toDataURL('image/jpeg', params.jpegQuality);
+};
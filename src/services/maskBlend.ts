@@ -0,0 +1,41 @@
+import { createCanvas, loadImage } from './canvas';
+
+// How far inside the mask edge the patch fades in, so the seam doesn't show.
+const FEATHER_PX = 6;
+
+const readPixels = (image: HTMLImageElement, width: number, height: number, filter = 'none'): Uint8ClampedArray => {
+    const { ctx } = createCanvas(width, height);
+    ctx.filter = filter;
+    ctx.drawImage(image, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+};
+
+// Copies the model's patch onto `baseUrl` wherever the mask is white. The
+// feather only ever fades inwards, so pixels outside the mask are untouched,
+// and the result is a PNG so they aren't re-compressed either.
+export const blendMaskedPatch = async (baseUrl: string, patchUrl: string, maskUrl: string): Promise<string> => {
+    const [base, patch, mask] = await Promise.all([baseUrl, patchUrl, maskUrl].map(loadImage));
+    const width = base.naturalWidth;
+    const height = base.naturalHeight;
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(base, 0, 0);
+
+    const output = ctx.getImageData(0, 0, width, height);
+    const pixels = output.data;
+    // The model may answer at a different resolution; stretch it back onto the original frame.
+    const patchPixels = readPixels(patch, width, height);
+    const maskPixels = readPixels(mask, width, height);
+    const softMask = readPixels(mask, width, height, `blur(${FEATHER_PX}px)`);
+
+    for (let offset = 0; offset < pixels.length; offset += 4) {
+        if (maskPixels[offset] < 128) continue;
+        // The blurred mask drops to about half at the edge; stretch that to 0 there and 1 further in.
+        const weight = Math.min(1, Math.max(0, (softMask[offset] / 255 - 0.5) * 2));
+        for (let channel = 0; channel < 3; channel++) {
+            pixels[offset + channel] += (patchPixels[offset + channel] - pixels[offset + channel]) * weight;
+        }
+    }
+
+    ctx.putImageData(output, 0, 0);
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,76 @@
+// Minimal PDF 1.4 writer: one full-bleed JPEG per page, embedded as-is with
+// DCTDecode so nothing is re-encoded. Sizes are in points (1/72 inch).
+
+export interface PdfPage {
+    jpeg: Uint8Array;
+    pixelWidth: number;
+    pixelHeight: number;
+    width: number;
+    height: number;
+    // Printed past the trim line on every side; recorded as the TrimBox inset.
+    bleed: number;
+}
+
+const encoder = new TextEncoder();
+
+const format = (value: number): string => String(Math.round(value * 100) / 100);
+
+const box = (inset: number, width: number, height: number): string =>
+    `[${format(inset)} ${format(inset)} ${format(width - inset)} ${format(height - inset)}]`;
+
+export const createPdf = (pages: PdfPage[]): Blob => {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: string | Uint8Array) => {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+
+    // Objects are numbered from 1: the catalog, the page tree, then three per page.
+    const startObject = (id: number) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    const pageIds = pages.map((_, index) => 3 + index * 3);
+
+    // The binary comment tells transfer tools the file isn't plain text.
+    write('%PDF-1.4\n%âãÏÓ\n');
+    startObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+    startObject(2);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+    pages.forEach((page, index) => {
+        const [pageId, contentId, imageId] = [pageIds[index], pageIds[index] + 1, pageIds[index] + 2];
+        const content = `q ${format(page.width)} 0 0 ${format(page.height)} 0 0 cm /Im0 Do Q`;
+
+        startObject(pageId);
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox ${box(0, page.width, page.height)} /BleedBox ${box(0, page.width, page.height)} /TrimBox ${box(page.bleed, page.width, page.height)} /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+        startObject(contentId);
+        write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+        startObject(imageId);
+        write(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+        write(page.jpeg);
+        write('\nendstream\nendobj\n');
+    });
+
+    const xrefOffset = length;
+    const objectCount = 2 + pages.length * 3;
+    write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+    for (let id = 1; id <= objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const file = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        file.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return new Blob([file], { type: 'application/pdf' });
+};
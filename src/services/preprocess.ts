@@ -0,0 +1,70 @@
+import { createCanvas } from './canvas';
+import { fileToBase64, isHeicFile } from './imageFiles';
+
+export type UploadFormat = 'image/jpeg' | 'image/webp';
+
+export interface PreprocessSettings {
+    // Longest side of the uploaded image in pixels.
+    maxEdge: number;
+    format: UploadFormat;
+    quality: number;
+}
+
+export const DEFAULT_PREPROCESS: PreprocessSettings = {
+    maxEdge: 1600,
+    format: 'image/jpeg',
+    quality: 0.85,
+};
+
+export const MAX_EDGE_OPTIONS = [1024, 1600, 2048, 3072];
+
+export interface PreparedImage {
+    base64: string;
+    mimeType: string;
+    width: number;
+    height: number;
+}
+
+export const decodeHeic = async (file: File): Promise<Blob> => {
+    // heic2any bundles a full HEIF decoder, so only load it when an iPhone photo shows up.
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.95 });
+    return Array.isArray(converted) ? converted[0] : converted;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: UploadFormat, quality: number): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the photo for upload.'))), format, quality);
+    });
+};
+
+// Normalises a photo before it is uploaded: decodes HEIC, applies the EXIF
+// rotation, caps the longest edge and re-encodes at a predictable quality so
+// phone photos stay well under the function's body limit.
+export const preprocessImage = async (file: File, settings: PreprocessSettings): Promise<PreparedImage> => {
+    const source = isHeicFile(file) ? await decodeHeic(file) : file;
+
+    let bitmap: ImageBitmap;
+    try {
+        // `from-image` makes the browser apply the EXIF orientation while decoding.
+        bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+    } catch (error) {
+        console.error(`Could not decode ${file.name}:`, error);
+        throw new Error("This photo couldn't be read. Please try a PNG, JPEG, WebP or HEIC image.");
+    }
+
+    const scale = Math.min(1, settings.maxEdge / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    // Browsers without a WebP encoder silently hand back PNG; the actual type is read from the blob.
+    const blob = await canvasToBlob(canvas, settings.format, settings.quality);
+    const { base64, mimeType } = await fileToBase64(blob);
+
+    return { base64, mimeType, width, height };
+};
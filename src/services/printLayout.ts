@@ -0,0 +1,224 @@
+import { createCanvas, loadImage } from './canvas';
+import { formatDateStamp, DATE_STAMP_COLORS } from './dateStamp';
+import { readExif } from './exif';
+import { createPdf } from './pdfWriter';
+import { createZip } from './zip';
+
+// Arranges finished results into print-ready pages at PRINT_DPI. Everything is
+// drawn on canvases in the browser; the pages then go out as one PDF or as PNGs.
+
+export type PrintLayoutId = 'strip' | 'contact-sheet' | 'print-4x6' | 'print-5x7';
+
+export interface PrintLayout {
+    id: PrintLayoutId;
+    label: string;
+    description: string;
+    // Trimmed size in inches, portrait way up.
+    width: number;
+    height: number;
+    // Extra image past the trim line on every side, cut off by the print shop.
+    bleed: number;
+    // How many results fit on one page.
+    perPage: number;
+}
+
+export interface PrintSource {
+    url: string;
+    // The original upload, for the contact sheet's filename and capture date.
+    file: File;
+}
+
+export interface PrintPage {
+    canvas: HTMLCanvasElement;
+    // Page size including bleed, in inches.
+    width: number;
+    height: number;
+    bleed: number;
+}
+
+export const PRINT_DPI = 300;
+
+export const PRINT_LAYOUTS: readonly PrintLayout[] = [
+    { id: 'strip', label: 'Photo-booth strip', description: 'Four frames on a 2×6" strip.', width: 2, height: 6, bleed: 0, perPage: 4 },
+    { id: 'contact-sheet', label: 'Contact sheet', description: 'Up to 20 per Letter page, with filenames and dates.', width: 8.5, height: 11, bleed: 0, perPage: 20 },
+    { id: 'print-4x6', label: '4×6" print', description: 'One photo per print, with ⅛" bleed.', width: 4, height: 6, bleed: 0.125, perPage: 1 },
+    { id: 'print-5x7', label: '5×7" print', description: 'One photo per print, with ⅛" bleed.', width: 5, height: 7, bleed: 0.125, perPage: 1 },
+];
+
+export const getPrintLayout = (id: PrintLayoutId): PrintLayout => PRINT_LAYOUTS.find(layout => layout.id === id) ?? PRINT_LAYOUTS[0];
+
+const CONTACT_SHEET_COLUMNS = 4;
+const STRIP_FRAMES = 4;
+const PDF_JPEG_QUALITY = 0.92;
+
+const toPixels = (inches: number): number => Math.round(inches * PRINT_DPI);
+
+// Fills the box, cropping whatever sticks out; the crop stays centred.
+const drawCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, x: number, y: number, width: number, height: number) => {
+    const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+    const sourceWidth = width / scale;
+    const sourceHeight = height / scale;
+    ctx.drawImage(image, (image.naturalWidth - sourceWidth) / 2, (image.naturalHeight - sourceHeight) / 2, sourceWidth, sourceHeight, x, y, width, height);
+};
+
+// Fits the whole image inside the box, centred.
+const drawContain = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, x: number, y: number, width: number, height: number) => {
+    const scale = Math.min(width / image.naturalWidth, height / image.naturalHeight);
+    const drawWidth = image.naturalWidth * scale;
+    const drawHeight = image.naturalHeight * scale;
+    ctx.drawImage(image, x + (width - drawWidth) / 2, y + (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+const truncateToWidth = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string => {
+    if (ctx.measureText(text).width <= maxWidth) return text;
+    let end = text.length;
+    while (end > 1 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+    return `${text.slice(0, end)}…`;
+};
+
+// When the photo was taken, or when the file was last saved if it has no EXIF date.
+const captureDate = async (file: File): Promise<Date> => (await readExif(file)).capturedAt ?? new Date(file.lastModified);
+
+// Four frames stacked on a white strip with a caption underneath. Fewer than
+// four results repeat, like a booth that caught the same pose twice.
+const renderStrip = async (sources: PrintSource[], layout: PrintLayout): Promise<PrintPage> => {
+    const { canvas, ctx } = createCanvas(toPixels(layout.width), toPixels(layout.height));
+    const margin = toPixels(0.1);
+    const footer = toPixels(0.45);
+    const frameWidth = canvas.width - margin * 2;
+    const frameHeight = (canvas.height - margin * (STRIP_FRAMES + 1) - footer) / STRIP_FRAMES;
+
+    ctx.fillStyle = '#fdfdfb';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    for (let frame = 0; frame < STRIP_FRAMES; frame++) {
+        const image = await loadImage(sources[frame % sources.length].url);
+        drawCover(ctx, image, margin, margin + frame * (frameHeight + margin), frameWidth, frameHeight);
+    }
+
+    const date = await captureDate(sources[0].file);
+    ctx.fillStyle = '#222';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `bold ${toPixels(0.12)}px "Courier New", monospace`;
+    ctx.fillText(`2000s FLASHBACK  ${formatDateStamp(date, 'apostrophe')}`, canvas.width / 2, canvas.height - footer / 2);
+
+    return { canvas, width: layout.width, height: layout.height, bleed: layout.bleed };
+};
+
+// Dark film-style sheet with every frame contained in its cell, captioned with
+// the upload's filename and a date stamp in the camera's orange.
+const renderContactSheet = async (sources: PrintSource[], layout: PrintLayout, page: number, pageCount: number): Promise<PrintPage> => {
+    const { canvas, ctx } = createCanvas(toPixels(layout.width), toPixels(layout.height));
+    const margin = toPixels(0.5);
+    const header = toPixels(0.4);
+    const gap = toPixels(0.15);
+    const caption = toPixels(0.3);
+    const rows = Math.ceil(layout.perPage / CONTACT_SHEET_COLUMNS);
+    const cellWidth = (canvas.width - margin * 2 - gap * (CONTACT_SHEET_COLUMNS - 1)) / CONTACT_SHEET_COLUMNS;
+    const cellHeight = (canvas.height - margin * 2 - header - gap * (rows - 1)) / rows;
+    const textSize = toPixels(0.09);
+
+    ctx.fillStyle = '#111';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#eee';
+    ctx.textBaseline = 'top';
+    ctx.font = `bold ${toPixels(0.16)}px "Courier New", monospace`;
+    ctx.fillText('2000s FLASHBACK CONTACT SHEET', margin, margin);
+    ctx.textAlign = 'right';
+    ctx.fillText(`${page + 1}/${pageCount}`, canvas.width - margin, margin);
+    ctx.textAlign = 'left';
+
+    for (const [index, source] of sources.entries()) {
+        const x = margin + (index % CONTACT_SHEET_COLUMNS) * (cellWidth + gap);
+        const y = margin + header + Math.floor(index / CONTACT_SHEET_COLUMNS) * (cellHeight + gap);
+        const image = await loadImage(source.url);
+        drawContain(ctx, image, x, y, cellWidth, cellHeight - caption);
+
+        ctx.font = `${textSize}px "Courier New", monospace`;
+        ctx.fillStyle = '#ddd';
+        ctx.fillText(truncateToWidth(ctx, source.file.name, cellWidth), x, y + cellHeight - caption + textSize * 0.4);
+        ctx.font = `bold ${textSize}px "Courier New", monospace`;
+        ctx.fillStyle = DATE_STAMP_COLORS.orange;
+        ctx.fillText(formatDateStamp(await captureDate(source.file), 'datetime'), x, y + cellHeight - caption + textSize * 1.6);
+    }
+
+    return { canvas, width: layout.width, height: layout.height, bleed: layout.bleed };
+};
+
+// A single photo filling the print and its bleed, turned landscape for landscape photos.
+const renderPrint = async (source: PrintSource, layout: PrintLayout): Promise<PrintPage> => {
+    const image = await loadImage(source.url);
+    const landscape = image.naturalWidth > image.naturalHeight;
+    const width = (landscape ? layout.height : layout.width) + layout.bleed * 2;
+    const height = (landscape ? layout.width : layout.height) + layout.bleed * 2;
+    const { canvas, ctx } = createCanvas(toPixels(width), toPixels(height));
+    drawCover(ctx, image, 0, 0, canvas.width, canvas.height);
+    return { canvas, width, height, bleed: layout.bleed };
+};
+
+export const countPrintPages = (layoutId: PrintLayoutId, sources: PrintSource[]): number =>
+    Math.ceil(sources.length / getPrintLayout(layoutId).perPage);
+
+// Draws a single page, so callers can hold one full-size canvas at a time
+// instead of the whole album at PRINT_DPI.
+export const renderPrintPage = async (layoutId: PrintLayoutId, sources: PrintSource[], page: number): Promise<PrintPage> => {
+    if (sources.length === 0) {
+        throw new Error('There are no finished results to print yet.');
+    }
+    const layout = getPrintLayout(layoutId);
+    const group = sources.slice(page * layout.perPage, (page + 1) * layout.perPage);
+    if (layout.id === 'strip') return renderStrip(group, layout);
+    if (layout.id === 'contact-sheet') return renderContactSheet(group, layout, page, countPrintPages(layoutId, sources));
+    return renderPrint(group[0], layout);
+};
+
+// Shrinking a canvas to nothing frees its pixels straight away rather than
+// whenever the garbage collector gets to it.
+export const releasePrintPage = (page: PrintPage) => {
+    page.canvas.width = 0;
+    page.canvas.height = 0;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the print page.'))), type, quality);
+});
+
+// Renders, encodes and releases the pages in turn; only the encoded bytes are kept.
+const encodePages = async <T>(layoutId: PrintLayoutId, sources: PrintSource[], encode: (page: PrintPage, index: number) => Promise<T>): Promise<T[]> => {
+    const encoded: T[] = [];
+    for (let index = 0; index < countPrintPages(layoutId, sources); index++) {
+        const page = await renderPrintPage(layoutId, sources, index);
+        try {
+            encoded.push(await encode(page, index));
+        } finally {
+            releasePrintPage(page);
+        }
+    }
+    return encoded;
+};
+
+export const printLayoutToPdf = async (layoutId: PrintLayoutId, sources: PrintSource[]): Promise<Blob> => {
+    const pdfPages = await encodePages(layoutId, sources, async page => ({
+        jpeg: new Uint8Array(await (await canvasToBlob(page.canvas, 'image/jpeg', PDF_JPEG_QUALITY)).arrayBuffer()),
+        pixelWidth: page.canvas.width,
+        pixelHeight: page.canvas.height,
+        width: page.width * 72,
+        height: page.height * 72,
+        bleed: page.bleed * 72,
+    }));
+    return createPdf(pdfPages);
+};
+
+// One PNG per page, zipped when there is more than one. PNG keeps the 300 DPI
+// pixels lossless for labs that don't take PDFs.
+export const printLayoutToPng = async (layoutId: PrintLayoutId, sources: PrintSource[], baseName: string): Promise<{ blob: Blob; fileName: string }> => {
+    if (countPrintPages(layoutId, sources) === 1) {
+        const [blob] = await encodePages(layoutId, sources, page => canvasToBlob(page.canvas, 'image/png'));
+        return { blob, fileName: `${baseName}.png` };
+    }
+    const entries = await encodePages(layoutId, sources, async (page, index) => ({
+        name: `${baseName}-${String(index + 1).padStart(2, '0')}.png`,
+        data: new Uint8Array(await (await canvasToBlob(page.canvas, 'image/png')).arrayBuffer()),
+    }));
+    return { blob: createZip(entries), fileName: `${baseName}.zip` };
+};
@@ -0,0 +1,14 @@
+const SESSION_KEY = 'flashback.session';
+
+// Anonymous per-browser id so the server can rate limit by session where IPs are shared.
+export const getSessionToken = (): string => {
+    try {
+        const existing = localStorage.getItem(SESSION_KEY);
+        if (existing) return existing;
+        const token = crypto.randomUUID();
+        localStorage.setItem(SESSION_KEY, token);
+        return token;
+    } catch {
+        return 'anonymous';
+    }
+};
@@ -0,0 +1,35 @@
+import type { TransformErrorCode } from '../shared/errors';
+import type { CreateShareResponse, ShareExpiry } from '../shared/share';
+
+export interface ShareLink {
+    url: string;
+    expiresAt: number;
+}
+
+const ERROR_MESSAGES: Partial<Record<TransformErrorCode, string>> = {
+    payload_too_large: "This image is too large to share. Try turning off the date stamp or watermark, or lowering the upload size.",
+    dimensions_too_large: "This image has too many pixels to share. Lower the maximum size under Upload Quality and try again.",
+    rate_limited: "You're sharing a lot right now. Please wait a moment before creating another link.",
+    quota_exceeded: "You've created all of today's share links. The counter resets at midnight UTC.",
+    unknown_style: "That style isn't available any more, so it can't be shared.",
+};
+
+// Uploads a finished result (a data URL) and returns the public link to it.
+export const createShareLink = async (imageUrl: string, styleId: string, expiresInDays: ShareExpiry): Promise<ShareLink> => {
+    const response = await fetch('/.netlify/functions/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            data: imageUrl.slice(imageUrl.indexOf(',') + 1),
+            mimeType: imageUrl.slice(5, imageUrl.indexOf(';')),
+            styleId,
+            expiresInDays,
+        }),
+    });
+    const body = await response.json().catch(() => ({})) as Partial<CreateShareResponse> & { error?: string; code?: TransformErrorCode };
+
+    if (!response.ok || !body.path || typeof body.expiresAt !== 'number') {
+        throw new Error((body.code && ERROR_MESSAGES[body.code]) || body.error || `Server responded with status: ${response.status}`);
+    }
+    return { url: new URL(body.path, window.location.origin).toString(), expiresAt: body.expiresAt };
+};
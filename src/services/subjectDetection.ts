@@ -0,0 +1,126 @@
+import { createCanvas, loadImage } from './canvas';
+import { MAX_SUBJECTS, type SubjectBox } from '../shared/subjects';
+
+// Finds people before upload, entirely on the device. Browsers with the Shape
+// Detection API get real face boxes; everywhere else a skin-tone heuristic
+// marks likely people. Both stay in the browser and never need a network call.
+
+// Minimal typing for the Shape Detection API, which TypeScript's DOM library doesn't include yet.
+interface DetectedFace {
+    boundingBox: DOMRectReadOnly;
+}
+
+interface FaceDetectorInstance {
+    detect: (image: ImageBitmapSource) => Promise<DetectedFace[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { maxDetectedFaces?: number; fastMode?: boolean }) => FaceDetectorInstance;
+
+const getFaceDetector = (): FaceDetectorConstructor | undefined =>
+    (window as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+
+// The heuristic works on a thumbnail; people rarely need more detail than this to find.
+const HEURISTIC_EDGE = 128;
+// Regions smaller than this share of the frame are treated as noise.
+const MIN_REGION_SHARE = 0.004;
+// How much of its bounding box a region must fill; faces are roughly solid blobs.
+const MIN_REGION_FILL = 0.35;
+
+const clampBox = (box: SubjectBox): SubjectBox => {
+    const x = Math.min(1, Math.max(0, box.x));
+    const y = Math.min(1, Math.max(0, box.y));
+    return { ...box, x, y, width: Math.min(1 - x, box.width), height: Math.min(1 - y, box.height) };
+};
+
+const detectFaces = async (Detector: FaceDetectorConstructor, image: HTMLImageElement): Promise<SubjectBox[]> => {
+    const faces = await new Detector({ maxDetectedFaces: MAX_SUBJECTS, fastMode: true }).detect(image);
+    return faces.map(({ boundingBox }) => clampBox({
+        kind: 'face',
+        x: boundingBox.x / image.naturalWidth,
+        y: boundingBox.y / image.naturalHeight,
+        width: boundingBox.width / image.naturalWidth,
+        height: boundingBox.height / image.naturalHeight,
+    }));
+};
+
+// Classic RGB skin rule (Kovač et al.) for daylight and flash lighting.
+const isSkin = (r: number, g: number, b: number): boolean =>
+    r > 95 && g > 40 && b > 20 && Math.max(r, g, b) - Math.min(r, g, b) > 15 && Math.abs(r - g) > 15 && r > g && r > b;
+
+// Connected skin-coloured regions that are face-sized and roughly face-shaped.
+const detectSkinRegions = (image: HTMLImageElement): SubjectBox[] => {
+    const scale = Math.min(1, HEURISTIC_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.max(1, Math.round(image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+
+    const skin = new Uint8Array(width * height);
+    for (let pixel = 0; pixel < skin.length; pixel++) {
+        skin[pixel] = isSkin(pixels[pixel * 4], pixels[pixel * 4 + 1], pixels[pixel * 4 + 2]) ? 1 : 0;
+    }
+
+    const regions: { box: SubjectBox; area: number }[] = [];
+    const visited = new Uint8Array(width * height);
+    const queue = new Int32Array(width * height);
+
+    for (let start = 0; start < skin.length; start++) {
+        if (!skin[start] || visited[start]) continue;
+        let head = 0;
+        let tail = 0;
+        let minX = width, minY = height, maxX = 0, maxY = 0;
+        queue[tail++] = start;
+        visited[start] = 1;
+        while (head < tail) {
+            const pixel = queue[head++];
+            const x = pixel % width;
+            const y = (pixel - x) / width;
+            minX = Math.min(minX, x);
+            maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y);
+            maxY = Math.max(maxY, y);
+            const neighbours = [x > 0 ? pixel - 1 : -1, x < width - 1 ? pixel + 1 : -1, y > 0 ? pixel - width : -1, y < height - 1 ? pixel + width : -1];
+            for (const next of neighbours) {
+                if (next >= 0 && skin[next] && !visited[next]) {
+                    visited[next] = 1;
+                    queue[tail++] = next;
+                }
+            }
+        }
+
+        const area = tail;
+        const boxWidth = maxX - minX + 1;
+        const boxHeight = maxY - minY + 1;
+        const aspect = boxWidth / boxHeight;
+        // Skin-toned walls and wooden floors fill half the frame; people don't.
+        if (area < skin.length * MIN_REGION_SHARE || area / (boxWidth * boxHeight) < MIN_REGION_FILL || aspect < 0.4 || aspect > 1.6 || boxWidth > width * 0.6) {
+            continue;
+        }
+        regions.push({ area, box: { kind: 'person', x: minX / width, y: minY / height, width: boxWidth / width, height: boxHeight / height } });
+    }
+
+    return regions.sort((a, b) => b.area - a.area).slice(0, MAX_SUBJECTS).map(region => region.box);
+};
+
+// Never throws: a photo we can't analyse is treated as having no detected people.
+export const detectSubjects = async (source: Blob | string): Promise<SubjectBox[]> => {
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    try {
+        const image = await loadImage(url);
+        const Detector = getFaceDetector();
+        if (Detector) {
+            try {
+                return await detectFaces(Detector, image);
+            } catch (error) {
+                console.warn('Face detection failed, falling back to the skin-tone heuristic:', error);
+            }
+        }
+        return detectSkinRegions(image);
+    } catch (error) {
+        console.warn('Subject detection failed:', error);
+        return [];
+    } finally {
+        if (typeof source !== 'string') URL.revokeObjectURL(url);
+    }
+};
@@ -0,0 +1,181 @@
+import { transformImage, type ProgressCallback, type TransformResult } from './geminiService';
+import { applyLofiFilter, lofiParamsFromSettings } from './lofiFilter';
+import { preprocessImage, type PreprocessSettings } from './preprocess';
+import { compositeResult, type CompositeLayers } from './compositor';
+import { blendMaskedPatch } from './maskBlend';
+import { detectSubjects } from './subjectDetection';
+import { resolveStampDate, type DateStampSettings } from './dateStamp';
+import type { WatermarkSettings } from './watermark';
+import { getStyle, type Corner, type PromptOptions } from '../shared/styles';
+import type { PromptSettings } from '../shared/promptSettings';
+import type { ObjectSelection } from '../shared/cutoutObjects';
+import type { RefinementRequest } from '../shared/refinement';
+import { DEFAULT_SUBJECT_SELECTION, type CutoutSubjects, type SubjectBox, type SubjectSelection } from '../shared/subjects';
+
+export interface TransformOptions {
+    dateStamp: DateStampSettings;
+    watermark: WatermarkSettings;
+    preprocess: PreprocessSettings;
+    promptSettings: PromptSettings;
+    variations: number;
+    // Set per run by the queue for re-rolls; never stored with an item's options.
+    skipCache?: boolean;
+}
+
+export interface ResultVariation {
+    url: string;
+    // The image before date stamp and watermark were added; follow-up edits start from this.
+    rawUrl: string;
+    selection: ObjectSelection | null;
+}
+
+export interface PipelineResult {
+    // Composited variations, in the order the server returned them.
+    variations: ResultVariation[];
+    promptVersion: string;
+    model: string;
+    cached: boolean;
+    // The people hinted to the model, so follow-up edits can rebuild the same prompt.
+    subjects: SubjectBox[];
+    // Who the cutout style was asked to cut out; null for other styles.
+    cutoutSubjects: CutoutSubjects | null;
+}
+
+export interface PipelineCallbacks {
+    onProgress?: ProgressCallback;
+    // Receives the locally filtered approximation, for styles that have one.
+    onPreview?: (preview: ResultVariation) => void;
+    signal?: AbortSignal;
+    // People found when the photo was added. Detected from the upload when missing.
+    subjects?: SubjectBox[];
+    // The people picked for the cutout style on the preview screen.
+    subjectSelection?: SubjectSelection;
+}
+
+export interface RefinementInput extends Omit<RefinementRequest, 'mask'> {
+    // The version being edited.
+    source: ResultVariation;
+    // Props of the original transformation; its seed rebuilds the original prompt.
+    selection: ObjectSelection | null;
+    // PNG data URL the size of the image, white over the region to change.
+    mask?: string;
+}
+
+export interface RefinementResult {
+    variation: ResultVariation;
+    promptVersion: string;
+    model: string;
+}
+
+// The prompt options and overlay layers a photo's settings call for. Layers
+// load in the background because the stamp date may need the photo's EXIF.
+const planOutput = (file: File, styleId: string, options: TransformOptions, subjects: SubjectBox[], subjectSelection: SubjectSelection): { promptOptions: PromptOptions; layersPromise: Promise<CompositeLayers> } => {
+    const style = getStyle(styleId);
+    const wantsDateStamp = Boolean(style?.output.dateStamp && options.dateStamp.enabled);
+    const wantsWatermark = options.watermark.enabled && options.watermark.text.trim().length > 0;
+    const clearCorners = new Set<Corner>();
+    if (wantsDateStamp) clearCorners.add(options.dateStamp.corner);
+    if (wantsWatermark) clearCorners.add(options.watermark.corner);
+
+    const layersPromise = (async () => {
+        const layers: CompositeLayers = {};
+        if (wantsDateStamp) {
+            layers.dateStamp = { settings: options.dateStamp, date: await resolveStampDate(file, options.dateStamp) };
+        }
+        if (wantsWatermark) {
+            layers.watermark = options.watermark;
+        }
+        return layers;
+    })();
+
+    // Exclusions only make sense against the list they were picked from.
+    const excluded = subjectSelection.excluded.filter(index => index < subjects.length);
+    const selection = excluded.length < subjects.length ? { ...subjectSelection, excluded } : { ...subjectSelection, excluded: [] };
+
+    return { promptOptions: { clearCorners: [...clearCorners], settings: options.promptSettings, subjects, subjectSelection: selection }, layersPromise };
+};
+
+const splitDataUrl = (dataUrl: string): { base64: string; mimeType: string } => ({
+    base64: dataUrl.slice(dataUrl.indexOf(',') + 1),
+    mimeType: dataUrl.slice(5, dataUrl.indexOf(';')),
+});
+
+// Preprocess -> detect people -> upload -> model -> client-side compositing for a single photo.
+export const runTransformPipeline = async (file: File, styleId: string, options: TransformOptions, { onProgress, onPreview, signal, subjects: knownSubjects, subjectSelection = DEFAULT_SUBJECT_SELECTION }: PipelineCallbacks = {}): Promise<PipelineResult> => {
+    const style = getStyle(styleId);
+
+    const { base64, mimeType } = await preprocessImage(file, options.preprocess);
+    signal?.throwIfAborted();
+    const subjects = knownSubjects ?? await detectSubjects(`data:${mimeType};base64,${base64}`);
+    const { promptOptions, layersPromise } = planOutput(file, styleId, options, subjects, subjectSelection);
+    onProgress?.('resized');
+
+    // Runs alongside the model call. A failure here must never affect the real result.
+    const preview = style?.output.localPreview && onPreview
+        ? (async () => {
+            const filtered = await applyLofiFilter(`data:${mimeType};base64,${base64}`, lofiParamsFromSettings(options.promptSettings, subjects));
+            onPreview({ url: await compositeResult(filtered, await layersPromise), rawUrl: filtered, selection: null });
+        })().catch(error => console.warn('Local preview failed:', error))
+        : Promise.resolve();
+
+    let result: TransformResult | null;
+    try {
+        result = await transformImage(base64, mimeType, styleId, {
+            promptOptions,
+            skipCache: options.skipCache,
+            variations: options.variations,
+            onProgress,
+            signal,
+        });
+    } catch (error) {
+        // Make sure the preview is in place before the failure is reported, so it can be offered as a fallback.
+        await preview;
+        throw error;
+    }
+
+    if (!result) {
+        await preview;
+        throw new Error("The AI couldn't transform the image. Please try another one.");
+    }
+
+    const layers = await layersPromise;
+    signal?.throwIfAborted();
+    const rawUrls = result.images.map(image => `data:${image.mimeType};base64,${image.data}`);
+    const urls = await Promise.all(rawUrls.map(rawUrl => compositeResult(rawUrl, layers)));
+    const selection = result.selection ?? null;
+    const variations = urls.map((url, index) => ({ url, rawUrl: rawUrls[index], selection }));
+    onProgress?.('post-processed');
+
+    return { variations, promptVersion: result.promptVersion, model: result.model, cached: Boolean(result.cached), subjects, cutoutSubjects: result.cutoutSubjects ?? null };
+};
+
+// Sends an earlier result back with a follow-up instruction, then re-applies
+// the same overlays. The photo's own settings rebuild the original prompt.
+// A masked edit also starts from the raw image: the overlays don't change its
+// size, so the mask painted on the shown image lines up, and only the masked
+// region is blended back before the overlays go on again.
+export const runRefinementPipeline = async (file: File, styleId: string, options: TransformOptions, { source, selection, instruction, previousInstructions, mask }: RefinementInput, { onProgress, signal, subjects = [], subjectSelection = DEFAULT_SUBJECT_SELECTION }: PipelineCallbacks = {}): Promise<RefinementResult> => {
+    const settings = selection ? { ...options.promptSettings, seed: selection.seed } : options.promptSettings;
+    const { promptOptions, layersPromise } = planOutput(file, styleId, { ...options, promptSettings: settings }, subjects, subjectSelection);
+    const { base64, mimeType } = splitDataUrl(source.rawUrl);
+
+    const result = await transformImage(base64, mimeType, styleId, {
+        promptOptions,
+        refinement: { instruction, previousInstructions, ...(mask ? { mask: splitDataUrl(mask).base64 } : {}) },
+        onProgress,
+        signal,
+    });
+
+    if (!result) {
+        throw new Error("The AI couldn't apply that edit. Try wording it differently.");
+    }
+
+    signal?.throwIfAborted();
+    const image = result.images[0];
+    const patchUrl = `data:${image.mimeType};base64,${image.data}`;
+    const rawUrl = mask ? await blendMaskedPatch(source.rawUrl, patchUrl, mask) : patchUrl;
+    const variation: ResultVariation = { url: await compositeResult(rawUrl, await layersPromise), rawUrl, selection: null };
+    onProgress?.('post-processed');
+
+    return { variation, promptVersion: result.promptVersion, model: result.model };
+};
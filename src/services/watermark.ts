@@ -0,0 +1,75 @@
+import type { Corner } from '../shared/styles';
+import { cornerOrigin } from './canvas';
+
+export interface WatermarkSettings {
+    enabled: boolean;
+    text: string;
+    // Part of `text` drawn in the accent colour; the rest is white.
+    accentText: string;
+    accentColor: string;
+    opacity: number;
+    corner: Corner;
+}
+
+export const DEFAULT_WATERMARK: WatermarkSettings = {
+    enabled: true,
+    text: '2000s FLASHBACK',
+    accentText: 'FLASH',
+    accentColor: '#ff2bd6',
+    opacity: 0.8,
+    corner: 'bottom-left',
+};
+
+const WATERMARK_FONT_FAMILY = '"Orbitron", sans-serif';
+
+// Splits the text around the first occurrence of the accent so each run can be coloured.
+export const splitWatermarkText = (text: string, accentText: string): { text: string; accent: boolean }[] => {
+    const index = accentText ? text.indexOf(accentText) : -1;
+    if (index === -1) return [{ text, accent: false }];
+    return [
+        { text: text.slice(0, index), accent: false },
+        { text: accentText, accent: true },
+        { text: text.slice(index + accentText.length), accent: false },
+    ].filter(run => run.text.length > 0);
+};
+
+// Canvas text silently falls back to another face if the web font has not
+// finished loading yet, so make sure Orbitron is ready before drawing.
+export const ensureWatermarkFont = async () => {
+    if (!document.fonts) return;
+    try {
+        await document.fonts.load(`bold 32px ${WATERMARK_FONT_FAMILY}`);
+    } catch (error) {
+        console.warn('Watermark font could not be loaded, falling back to sans-serif:', error);
+    }
+};
+
+// `reservedHeight` pushes the mark away from the edge when another overlay already sits in the same corner.
+export const drawWatermark = (ctx: CanvasRenderingContext2D, settings: WatermarkSettings, reservedHeight = 0) => {
+    const text = settings.text.trim();
+    if (!text) return;
+
+    const { width, height } = ctx.canvas;
+    const fontSize = Math.max(12, Math.round(Math.min(width, height) * 0.04));
+    const margin = fontSize;
+    const runs = splitWatermarkText(text, settings.accentText.trim());
+
+    ctx.save();
+    ctx.font = `bold ${fontSize}px ${WATERMARK_FONT_FAMILY}`;
+    ctx.textBaseline = 'top';
+    const textWidth = runs.reduce((total, run) => total + ctx.measureText(run.text).width, 0);
+    const origin = cornerOrigin(settings.corner, width, height, textWidth, fontSize, margin);
+    const y = settings.corner.startsWith('top') ? origin.y + reservedHeight : origin.y - reservedHeight;
+
+    ctx.globalAlpha = Math.min(1, Math.max(0, settings.opacity));
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = fontSize * 0.25;
+
+    let x = origin.x;
+    for (const run of runs) {
+        ctx.fillStyle = run.accent ? settings.accentColor : '#ffffff';
+        ctx.fillText(run.text, x, y);
+        x += ctx.measureText(run.text).width;
+    }
+    ctx.restore();
+};
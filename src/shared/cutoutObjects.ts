@@ -0,0 +1,59 @@
+// Catalogue of props the Paper Cutout style scatters around the subject. The
+// pick happens here rather than in the model, with a seeded generator, so a
+// collage's props can be shown to the user and reproduced exactly.
+
+import type { PromptSettings } from './promptSettings';
+import { createRandom, shuffle } from './random';
+
+export interface CutoutObject {
+    id: string;
+    label: string;
+    // How the object is described to the model.
+    description: string;
+}
+
+export interface ObjectSelection {
+    seed: number;
+    objects: CutoutObject[];
+}
+
+export const CUTOUT_CATALOGUE: readonly CutoutObject[] = [
+    { id: 'flip-phone', label: 'Flip phone', description: 'A flip phone (like a Motorola RAZR or a Nokia)' },
+    { id: 'mix-cd', label: 'Mix CD', description: 'A blank CD-R with "Mix Tape" handwritten on it' },
+    { id: 'energy-drink', label: 'Energy drink', description: 'An energy drink can (like Red Bull)' },
+    { id: 'click-wheel-ipod', label: 'Click-wheel iPod', description: 'An early iPod model with a click wheel' },
+    { id: 'disposable-camera', label: 'Disposable camera', description: 'A disposable camera' },
+    { id: 'digital-pet', label: 'Digital pet', description: 'A digital pet on a keychain (like a Tamagotchi)' },
+    { id: 'rental-case', label: 'Video rental case', description: 'A Blockbuster video rental case' },
+    { id: 'discman', label: 'Discman', description: 'A portable CD player (Discman)' },
+    { id: 'floppy-disk', label: 'Floppy disk', description: 'A floppy disk' },
+    { id: 'shield-sunglasses', label: 'Shield sunglasses', description: 'Y2K-style sunglasses (like shield sunglasses)' },
+    { id: 'butterfly-clips', label: 'Butterfly clips', description: 'Butterfly hair clips' },
+    { id: 'crt-messenger', label: 'CRT messenger', description: 'A chunky CRT computer monitor displaying a classic instant messenger window' },
+    { id: 'bubble-graffiti', label: 'Bubble graffiti', description: 'Bubble graffiti text saying one of the following: "OMG!", "LOL", "BFF", "Pwned", or "Cool!"' },
+];
+
+const CUSTOM_PREFIX = 'custom:';
+
+// User-added objects are identified by their text, so pins and exclusions
+// survive reordering or removing other custom entries.
+export const customObjectId = (description: string): string => `${CUSTOM_PREFIX}${description}`;
+
+export const isCustomObjectId = (id: string): boolean => id.startsWith(CUSTOM_PREFIX);
+
+export const getObjectPool = (settings: Pick<PromptSettings, 'customObjects'>): CutoutObject[] => [
+    ...CUTOUT_CATALOGUE,
+    ...settings.customObjects.map(description => ({ id: customObjectId(description), label: description, description })),
+];
+
+// Pinned objects always make the cut (in catalogue order); the remaining slots
+// are filled from a seeded shuffle of everything not excluded.
+export const selectCutoutObjects = (settings: Pick<PromptSettings, 'customObjects' | 'pinnedObjects' | 'excludedObjects' | 'objectCount'>, seed: number): ObjectSelection => {
+    const pool = getObjectPool(settings);
+    const pinned = new Set(settings.pinnedObjects);
+    const excluded = new Set(settings.excludedObjects);
+    const chosen = pool.filter(object => pinned.has(object.id)).slice(0, settings.objectCount);
+    const candidates = pool.filter(object => !pinned.has(object.id) && !excluded.has(object.id));
+    const fill = shuffle(candidates, createRandom(seed)).slice(0, settings.objectCount - chosen.length);
+    return { seed, objects: [...chosen, ...fill] };
+};
@@ -0,0 +1,31 @@
+// Machine-readable error codes returned by the transform-image and share
+// functions as `{ error, code }`, so the UI can explain each failure in its
+// own words.
+
+export type TransformErrorCode =
+    | 'invalid_json'
+    | 'missing_fields'
+    | 'unknown_style'
+    | 'invalid_variations'
+    | 'invalid_prompt_options'
+    | 'invalid_refinement'
+    | 'invalid_mask'
+    | 'invalid_base64'
+    | 'payload_too_large'
+    | 'dimensions_too_large'
+    | 'unsupported_media_type'
+    | 'type_mismatch'
+    | 'invalid_expiry'
+    | 'share_not_found'
+    | 'rate_limited'
+    | 'quota_exceeded'
+    | 'no_image_returned'
+    | 'configuration_error'
+    | 'internal_error';
+
+export interface TransformErrorBody {
+    error: string;
+    code: TransformErrorCode;
+    // Set on 429 responses, mirroring the Retry-After header.
+    retryAfterSeconds?: number;
+}
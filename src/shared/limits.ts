@@ -0,0 +1,17 @@
+// Upload limits enforced by the transform-image function. The client's
+// preprocessing defaults are chosen to stay comfortably inside them.
+
+export const ACCEPTED_UPLOAD_TYPES = ['image/png', 'image/jpeg', 'image/webp'] as const;
+
+export type AcceptedUploadType = typeof ACCEPTED_UPLOAD_TYPES[number];
+
+// Decoded bytes; base64 adds a third on top, which keeps requests under Netlify's 6 MB body cap.
+export const MAX_UPLOAD_BYTES = 4 * 1024 * 1024;
+
+export const MAX_IMAGE_EDGE = 4096;
+
+export const MAX_IMAGE_PIXELS = 16_000_000;
+
+// Images generated per request. Each variation is a separate model call and
+// counts against the caller's rate limit.
+export const MAX_VARIATIONS = 4;
@@ -0,0 +1,18 @@
+// Stages of a single transformation, in the order they happen. `resized` and
+// `post-processed` run in the browser; the rest are reported by the
+// transform-image function over server-sent events.
+
+export type TransformStage = 'resized' | 'received' | 'validated' | 'model-started' | 'image-extracted' | 'post-processed';
+
+export const TRANSFORM_STAGES: readonly { id: TransformStage; label: string }[] = [
+    { id: 'resized', label: 'Preparing your photo...' },
+    { id: 'received', label: 'Photo received by the server...' },
+    { id: 'validated', label: 'Checking the photo...' },
+    { id: 'model-started', label: 'The AI is developing your film...' },
+    { id: 'image-extracted', label: 'Picking up the prints...' },
+    { id: 'post-processed', label: 'Adding the finishing touches...' },
+];
+
+export const isTransformStage = (value: unknown): value is TransformStage => TRANSFORM_STAGES.some(stage => stage.id === value);
+
+export const getStageIndex = (stage: TransformStage): number => TRANSFORM_STAGES.findIndex(entry => entry.id === stage);
@@ -0,0 +1,71 @@
+// User-adjustable knobs for the style prompts, shared by the Advanced panel and
+// the transform-image function. The lofi defaults reproduce the stock prompt
+// word for word, so untouched settings hit the same cache entries as before.
+
+export type FlashIntensity = 'soft' | 'direct' | 'harsh';
+
+export type ColorCast = 'cool' | 'magenta' | 'warm' | 'neutral';
+
+export type NoiseLevel = 'none' | 'light' | 'moderate' | 'heavy';
+
+export const FLASH_INTENSITIES: readonly FlashIntensity[] = ['soft', 'direct', 'harsh'];
+
+export const COLOR_CASTS: readonly ColorCast[] = ['cool', 'magenta', 'warm', 'neutral'];
+
+export const NOISE_LEVELS: readonly NoiseLevel[] = ['none', 'light', 'moderate', 'heavy'];
+
+export interface PromptSettings {
+    flash: FlashIntensity;
+    colorCast: ColorCast;
+    noise: NoiseLevel;
+    vignette: boolean;
+    // Inclusive range of years the photo should look like it was taken in.
+    yearFrom: number;
+    yearTo: number;
+    // Cutout props on top of the built-in catalogue, described in plain text.
+    customObjects: string[];
+    // Catalogue or custom object ids that must / must never appear.
+    pinnedObjects: string[];
+    excludedObjects: string[];
+    objectCount: number;
+    // Fixes the cutout object pick. Null lets the server choose.
+    seed: number | null;
+    // Free text appended to the prompt as a lower-priority request.
+    extraInstructions: string;
+}
+
+export const MIN_YEAR = 1995;
+export const MAX_YEAR = 2012;
+export const MAX_CUSTOM_OBJECTS = 10;
+export const MAX_CUSTOM_OBJECT_LENGTH = 120;
+export const MIN_OBJECT_COUNT = 1;
+export const MAX_OBJECT_COUNT = 6;
+export const MAX_EXTRA_INSTRUCTIONS_LENGTH = 300;
+
+export const DEFAULT_PROMPT_SETTINGS: PromptSettings = {
+    flash: 'direct',
+    colorCast: 'cool',
+    noise: 'moderate',
+    vignette: true,
+    yearFrom: 2002,
+    yearTo: 2005,
+    customObjects: [],
+    pinnedObjects: [],
+    excludedObjects: [],
+    objectCount: 4,
+    seed: null,
+    extraInstructions: '',
+};
+
+// Keeps only known keys, filling gaps from the defaults. Settings saved by an
+// older version can carry fields the server no longer accepts.
+export const normalizePromptSettings = (value: object): PromptSettings => {
+    const source = value as Record<string, unknown>;
+    const entries = Object.entries(DEFAULT_PROMPT_SETTINGS).map(([key, fallback]) => [key, source[key] ?? fallback]);
+    return Object.fromEntries(entries) as PromptSettings;
+};
+
+// Which settings a style's prompt actually reads, so the panel only shows
+// controls that make a difference. 'subjectSelection' is chosen per photo on
+// the preview screen rather than in the panel.
+export type PromptControl = 'flash' | 'colorCast' | 'noise' | 'vignette' | 'years' | 'cutoutObjects' | 'subjectSelection';
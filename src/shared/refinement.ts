@@ -0,0 +1,30 @@
+// Follow-up edits on an existing result ("less vignette", "swap the iPod for a
+// Discman"). The client sends the image being refined plus the instructions
+// that led to it; the function replays them as conversation context. With a
+// mask, only the marked region is meant to change, and the browser blends the
+// model's answer back in so everything outside it stays exactly the same.
+
+export const MAX_REFINEMENT_INSTRUCTION_LENGTH = 200;
+
+// Earlier instructions on the same branch that are sent along as context.
+export const MAX_REFINEMENT_HISTORY = 8;
+
+export interface RefinementRequest {
+    instruction: string;
+    // Instructions already applied to the image, oldest first.
+    previousInstructions: string[];
+    // Base64 PNG the size of the image: white where it may change, black elsewhere.
+    mask?: string;
+}
+
+export const buildRefinementPrompt = ({ instruction, previousInstructions, mask }: RefinementRequest): string => {
+    const earlier = previousInstructions.length > 0
+        ? `\n\nThese earlier edits are already applied and must be kept:\n${previousInstructions.map(text => `- ${text}`).join('\n')}`
+        : '';
+    const region = mask
+        ? ' The attached black and white image is a mask: only change the area that is white in the mask, and blend it seamlessly with its surroundings. Keep the framing and size of the image identical.'
+        : '';
+    return `This is the image you made for the request above. Edit it according to the instruction below and change nothing else: keep the people, their faces, the composition and the early 2000s look exactly as they are.${region} Return only the edited image.
+
+Instruction: ${instruction}${earlier}`;
+};
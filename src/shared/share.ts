@@ -0,0 +1,22 @@
+// Contract between the share function and the UI that creates share links.
+
+// How long a share link stays valid, in days. There is deliberately no
+// "never": expired links are swept from the store, links without an expiry
+// never would be.
+export const SHARE_EXPIRY_OPTIONS = [1, 7, 30] as const;
+
+export type ShareExpiry = typeof SHARE_EXPIRY_OPTIONS[number];
+
+export const DEFAULT_SHARE_EXPIRY: ShareExpiry = 7;
+
+export const isShareExpiry = (value: unknown): value is ShareExpiry => (SHARE_EXPIRY_OPTIONS as readonly unknown[]).includes(value);
+
+// Short, URL-safe ids: 9 random bytes encoded as 12 base64url characters.
+export const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{12}$/;
+
+export interface CreateShareResponse {
+    id: string;
+    // Site-relative path of the public view, e.g. `/s/abc123def456`.
+    path: string;
+    expiresAt: number;
+}
@@ -0,0 +1,161 @@
+// Single source of truth for the transformation styles. Both the UI and the
+// transform-image function read from this registry, so adding a new look only
+// means adding an entry here.
+
+import type { ColorCast, FlashIntensity, NoiseLevel, PromptControl, PromptSettings } from './promptSettings';
+import { selectCutoutObjects } from './cutoutObjects';
+import { describeSubjectBoxes, describeSubjects, excludedSubjects, includedSubjects, type CutoutGrouping, type SubjectBox, type SubjectSelection } from './subjects';
+
+export type StyleIconId = 'camera' | 'scissors';
+
+export type Corner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export const CORNERS: readonly Corner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+export const isCorner = (value: unknown): value is Corner => CORNERS.includes(value as Corner);
+
+export interface OutputHints {
+    mimeType: string;
+    fileSlug: string;
+    // Whether the client should print a date stamp onto the result. The
+    // watermark is composited client-side for every style.
+    dateStamp: boolean;
+    // Whether the browser can approximate the look without the model, for an
+    // instant preview and as a fallback when the model fails.
+    localPreview: boolean;
+    // Whether people stay where they were in the photo, so crops based on the
+    // original's subject boxes also suit the result.
+    keepsFraming: boolean;
+}
+
+export interface PromptOptions {
+    // Corners the client will draw on afterwards; the model must leave them clean.
+    clearCorners: Corner[];
+    settings: PromptSettings;
+    // People detected in the browser; may be empty.
+    subjects: SubjectBox[];
+    // Which of those people the cutout style keeps, and how it cuts them out.
+    subjectSelection: SubjectSelection;
+}
+
+export interface StyleDefinition {
+    id: string;
+    title: string;
+    description: string;
+    icon: StyleIconId;
+    promptVersion: string;
+    buildPrompt: (options: PromptOptions) => string;
+    // Settings from the Advanced panel this style's prompt responds to.
+    controls: readonly PromptControl[];
+    output: OutputHints;
+}
+
+const describeCorners = (corners: Corner[]): string => corners.map(corner => corner.replace('-', ' ')).join(' and ');
+
+const clearCornersInstruction = (clearCorners: Corner[], reason: string): string => clearCorners.length > 0
+    ? ` Keep the ${describeCorners(clearCorners)} corner${clearCorners.length > 1 ? 's' : ''} free of text and busy detail so ${reason}.`
+    : '';
+
+const extraInstructionsBlock = (extraInstructions: string): string => extraInstructions.trim()
+    ? `\n\nAdditional requests from the user, to follow as long as they don't conflict with the instructions above: ${extraInstructions.trim()}`
+    : '';
+
+const describeYears = ({ yearFrom, yearTo }: PromptSettings): string => yearFrom === yearTo ? `in ${yearFrom}` : `between ${yearFrom}-${yearTo}`;
+
+const FLASH_LOOKS: Record<FlashIntensity, { light: string; highlights: string; background: string }> = {
+    soft: { light: 'a weak, diffused on-camera flash', highlights: 'gentle, lifted highlights', background: 'slightly darker' },
+    direct: { light: 'a direct, on-camera flash', highlights: 'bright, slightly blown-out highlights', background: 'darker' },
+    harsh: { light: 'a harsh, close-range on-camera flash', highlights: 'strongly blown-out highlights and hard shadows', background: 'much darker' },
+};
+
+const COLOR_CAST_LOOKS: Record<ColorCast, string> = {
+    cool: 'adding a subtle cool tint (blue or magenta), particularly in the mid-tones and shadows',
+    magenta: 'adding a noticeable magenta tint, particularly in the mid-tones and shadows',
+    warm: "adding a warm yellow-orange tint, as if the camera's white balance was fooled by tungsten lighting",
+    neutral: 'keeping the white balance neutral, with no color tint',
+};
+
+const NOISE_LOOKS: Record<NoiseLevel, string> = {
+    none: 'Keep the image free of digital noise/grain, but add',
+    light: 'Introduce a light amount of digital noise/grain and',
+    moderate: 'Introduce a moderate amount of digital noise/grain and',
+    heavy: 'Introduce a heavy amount of digital noise/grain, especially in the shadows, and',
+};
+
+const subjectsInstruction = (subjects: SubjectBox[], use: string): string => subjects.length > 0 ? ` ${describeSubjects(subjects)} ${use}` : '';
+
+const describeFlash = ({ flash, vignette }: PromptSettings, subjects: SubjectBox[]): string => {
+    const { light, highlights, background } = FLASH_LOOKS[flash];
+    return `Re-light the image to mimic ${light}. This should create ${highlights} on the foreground subject (especially faces)${subjectsInstruction(subjects, 'Aim the flash at these people; they are the foreground subject.')} and cause the background to appear ${background}${vignette ? ' with some vignetting' : ''}, as if it were a poorly lit room.${vignette ? '' : ' Keep the frame edges evenly exposed with no vignetting.'} Avoid making the shadows completely black; some background detail should remain visible.`;
+};
+
+const buildLofiPrompt = ({ clearCorners, settings, subjects }: PromptOptions) => `Transform this photo to look like it was taken at a party or social event ${describeYears(settings)} with a typical consumer point-and-shoot digital camera. The aesthetic is "2000s Nightlife Throwback" - think authentic, not overly polished.
+
+Key transformations to apply:
+1.  **Simulate On-Camera Flash:** ${describeFlash(settings, subjects)}
+2.  **Authentic Color Shift:** Adjust the colors to match early digital sensors. This includes slightly boosting saturation and ${COLOR_CAST_LOOKS[settings.colorCast]}.
+3.  **Low-Resolution Feel:** ${NOISE_LOOKS[settings.noise]} a slight overall softness to the image to replicate a low-megapixel sensor.
+4.  **No Text or Logos:** Do not draw a date stamp, watermark, logo or any other text; these are added separately afterwards.${clearCornersInstruction(clearCorners, 'those overlays stay legible')}
+
+The transformation should be noticeable and stylistic, but it must respect the original subject and composition. The final image should look like a plausible photograph from that time, not an extreme special effect.${extraInstructionsBlock(settings.extraInstructions)}`;
+
+const GROUPING_INSTRUCTIONS: Record<CutoutGrouping, string> = {
+    individual: 'Give every person their own separate cutout with its own white border. Keep each person whole and distinct; never merge two people into one shape or drop anyone.',
+    group: 'Cut everyone out together as a single group cutout with one shared white border, making sure no one is lost or cropped off.',
+};
+
+// Without detection results the model still picks the subjects itself, as it
+// always has; a single group cutout is then the default.
+const describeCutoutSubjects = (subjects: SubjectBox[], selection: SubjectSelection): string => {
+    const included = includedSubjects(subjects, selection);
+    const excluded = excludedSubjects(subjects, selection);
+    const grouping = selection.grouping === 'individual' || included.length > 1 ? ` ${GROUPING_INSTRUCTIONS[selection.grouping]}` : '';
+    if (included.length === 0) {
+        return `Identify the main subject(s) in the photo. Create a "cutout" of them with a distinct, slightly uneven white border, as if they were cut out with scissors.${grouping}`;
+    }
+    const count = included.length === 1 ? 'exactly one person' : `exactly ${included.length} people`;
+    const leftOut = excluded.length > 0 ? ` Leave out the other people, at ${describeSubjectBoxes(excluded)}; they must not appear anywhere in the collage.` : '';
+    const border = selection.grouping === 'individual' ? 'each cutout' : 'the cutout';
+    return `Cut out ${count} from the photo, the ${included.length === 1 ? 'one' : 'ones'} at ${describeSubjectBoxes(included)}. Give ${border} a distinct, slightly uneven white border, as if it was cut out with scissors.${grouping}${leftOut} Never cover their faces with other objects.`;
+};
+
+// The server resolves the seed before building, so the fallback only matters
+// for callers previewing a prompt.
+const buildCutoutPrompt = ({ clearCorners, settings, subjects, subjectSelection }: PromptOptions) => `Create a fun, "paper cutout" or scrapbook-style image from the provided photo. The aesthetic is a playful and chaotic 2000s throwback.
+
+Key transformations to apply:
+1.  **Isolate and Style Subject:** ${describeCutoutSubjects(subjects, subjectSelection)}
+2.  **Create Artboard Background:** Place the subject cutout onto a simple, flat, colored artboard background. The color should be vibrant and reminiscent of the era, like pastel pink, electric blue, or lime green.
+3.  **Add Themed Objects:** Generate each of the iconic 2000s objects listed below as a small paper cutout and scatter them around the main subject. These objects must also have white "cutout" borders. Do not add any other objects.
+${selectCutoutObjects(settings, settings.seed ?? 0).objects.map(object => `    - ${object.description}`).join('\n')}
+4.  **Composition and Shadow:** Arrange all cutouts (the main subject and the themed objects) in a dynamic, overlapping, and random-looking composition. Apply a subtle drop shadow to all cutouts to give them a slight 3D effect, making them look like they're sitting on top of the artboard.
+5.  **No Logos:** Do not add any watermark or text logo to the artboard; branding is added separately afterwards.${clearCornersInstruction(clearCorners, 'the branding stays legible')}
+
+The final image should be a creative, fun, and unique collage that screams nostalgia for the early 2000s. The playful mix of objects is key to making each creation feel special.${extraInstructionsBlock(settings.extraInstructions)}`;
+
+export const STYLES: readonly StyleDefinition[] = [
+    {
+        id: 'lofi',
+        title: '2000s Lofi',
+        description: 'Authentic digital camera look with a date stamp.',
+        icon: 'camera',
+        promptVersion: 'lofi-v3',
+        buildPrompt: buildLofiPrompt,
+        controls: ['flash', 'colorCast', 'noise', 'vignette', 'years'],
+        output: { mimeType: 'image/png', fileSlug: '2000s-lofi', dateStamp: true, localPreview: true, keepsFraming: true },
+    },
+    {
+        id: 'cutout',
+        title: 'Paper Cutout',
+        description: 'A fun scrapbook style with 2000s themed objects.',
+        icon: 'scissors',
+        promptVersion: 'cutout-v4',
+        buildPrompt: buildCutoutPrompt,
+        controls: ['cutoutObjects', 'subjectSelection'],
+        output: { mimeType: 'image/png', fileSlug: 'paper-cutout', dateStamp: false, localPreview: false, keepsFraming: false },
+    },
+];
+
+export const DEFAULT_STYLE_ID = STYLES[0].id;
+
+export const getStyle = (id: string): StyleDefinition | undefined => STYLES.find(style => style.id === id);
@@ -0,0 +1,72 @@
+// People found in the photo by the browser before upload. Boxes are fractions
+// of the frame (0-1) from the top-left, so they survive any resizing in
+// between. The prompt uses them to aim the flash and keep props off faces; the
+// UI uses them to crop previews around people.
+
+export type SubjectKind = 'face' | 'person';
+
+export interface SubjectBox {
+    kind: SubjectKind;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const MAX_SUBJECTS = 8;
+
+// How the cutout style separates people: one cutout each, or everyone in a
+// single shape with a shared border.
+export type CutoutGrouping = 'individual' | 'group';
+
+export const CUTOUT_GROUPINGS: readonly CutoutGrouping[] = ['group', 'individual'];
+
+// Chosen per photo before transforming. `excluded` holds indexes into that
+// photo's subject list.
+export interface SubjectSelection {
+    excluded: number[];
+    grouping: CutoutGrouping;
+}
+
+export const DEFAULT_SUBJECT_SELECTION: SubjectSelection = { excluded: [], grouping: 'group' };
+
+// Reported back with a cutout result. `count` is null when the browser found
+// nobody, so the model picked the subjects itself.
+export interface CutoutSubjects {
+    count: number | null;
+    grouping: CutoutGrouping;
+}
+
+export const includedSubjects = (subjects: SubjectBox[], { excluded }: SubjectSelection): SubjectBox[] =>
+    subjects.filter((_, index) => !excluded.includes(index));
+
+export const excludedSubjects = (subjects: SubjectBox[], { excluded }: SubjectSelection): SubjectBox[] =>
+    subjects.filter((_, index) => excluded.includes(index));
+
+export const summarizeCutoutSubjects = (subjects: SubjectBox[], selection: SubjectSelection): CutoutSubjects => ({
+    count: subjects.length > 0 ? includedSubjects(subjects, selection).length : null,
+    grouping: selection.grouping,
+});
+
+const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+const describeBox = ({ kind, x, y, width, height }: SubjectBox): string =>
+    `a ${kind} spanning ${percent(x)}-${percent(x + width)} across and ${percent(y)}-${percent(y + height)} down`;
+
+export const describeSubjectBoxes = (subjects: SubjectBox[]): string =>
+    `${subjects.map(describeBox).join('; ')} (measured from the top-left corner of the frame)`;
+
+// Empty when nothing was found, so prompts for such photos are unchanged.
+export const describeSubjects = (subjects: SubjectBox[]): string => subjects.length > 0
+    ? `Detection found ${describeSubjectBoxes(subjects)}.`
+    : '';
+
+// The point a square crop should centre on: the middle of the box around every subject.
+export const subjectFocus = (subjects: SubjectBox[]): { x: number; y: number } | null => {
+    if (subjects.length === 0) return null;
+    const left = Math.min(...subjects.map(box => box.x));
+    const top = Math.min(...subjects.map(box => box.y));
+    const right = Math.max(...subjects.map(box => box.x + box.width));
+    const bottom = Math.max(...subjects.map(box => box.y + box.height));
+    return { x: (left + right) / 2, y: (top + bottom) / 2 };
+};